@@ -5,26 +5,72 @@
 
 
 /** Performs a shallow update of an object using a partial object of the same shape. A new object is returned. */
-export function update<Obj extends {}, K extends keyof Obj>(host: Obj, spec: Pick<Obj, K>): Obj {
+export function update<Obj extends {}, K extends keyof Obj>(host: Obj, spec: Pick<Obj, K>, options?: UpdateOptions): Obj {
+  checkMutations(host)
+
   const result = cloneObject(host)
+  const onPatch = options && options.onPatch
+  const equals = equalityFunction(options)
+  const recorder = patchRecorder()
   let hasChanged = false;
 
   for (let key in spec) {
     const specValue = spec[key]
+    const keyChanged = specValue === DELETE
+      ? Object.prototype.hasOwnProperty.call(host, key)
+      : !equals(host[key], specValue)
 
-    if (specValue === DELETE) {
-      delete result[key]
-      hasChanged = hasChanged || key in host;
-    }
+    // An equal value is not written, so that the previous reference is kept
+    if (!keyChanged) continue
+
+    if (specValue === DELETE) delete result[key]
     else {
       result[key] = specValue
-      hasChanged = hasChanged || host[key] !== specValue;
+      freezeInserted(specValue)
     }
+
+    if (onPatch) recordPatch(recorder, [key], host, key, host[key], specValue)
+
+    hasChanged = true
   }
 
-  return hasChanged ? result : host;
+  if (hasChanged && onPatch) onPatch(recorder.patches, recorder.inversePatches)
+
+  recordSnapshots(host, result)
+
+  return hasChanged ? freezeClone(result) : host;
+}
+
+export interface UpdateOptions {
+  /**
+   * How a new value is compared to the current one. Overrides the configured equality for this update.
+   */
+  equality?: Equality
+
+  /**
+   * Called with the JSON Patch (RFC 6902) operations describing the update, if it changed anything.
+   * The inverse patches revert the update when applied, in order, to its result.
+   * Paths see through Options and other containers.
+   */
+  onPatch?: (patches: Patch[], inversePatches: Patch[]) => void
 }
 
+/**
+ * How a new value is compared to the current one. When they're equal, the current value is kept as is
+ * and the original object is returned if nothing else changed.
+ * reference: ===, shallow: the keys of Objects, Arrays, Maps and Sets are compared with ===, deep: they're compared recursively.
+ */
+export type Equality = 'reference' | 'shallow' | 'deep' | ((currentValue: any, newValue: any) => boolean)
+
+/** A JSON Patch (RFC 6902) operation */
+export type Patch =
+  { op: 'add', path: string, value: any } |
+  { op: 'remove', path: string } |
+  { op: 'replace', path: string, value: any } |
+  { op: 'move', from: string, path: string } |
+  { op: 'copy', from: string, path: string } |
+  { op: 'test', path: string, value: any }
+
 
 // We lie about the public type so that only a property that is optional or that can be assigned to undefined can be DELETE'd
 /** Marker used to delete a key */
@@ -37,30 +83,261 @@ export const DELETE = {} as any as undefined
 
 export type Leaf = string | number | boolean | null | symbol | Date | Function
 
-export type OptionContent<Opt extends OptionLike<any>> = Exclude<ReturnType<Opt['get']>, undefined>
+export type OptionContent<Opt extends OptionLike<any>> = Opt extends OptionLike<infer A> ? A : never
 
 export type Updater<TARGET, CURRENT> =
-  [CURRENT] extends [OptionLike<any>] ? ObjectUpdater<TARGET, OptionContent<CURRENT> | undefined> :
+  [ContainerContent<CURRENT>] extends [never] ? NonWrappedUpdater<TARGET, CURRENT> :
+  ObjectUpdater<TARGET, ContainerContent<CURRENT> | undefined>
+
+export type NonWrappedUpdater<TARGET, CURRENT> =
   [CURRENT] extends [any[]] ? ArrayUpdater<TARGET, CURRENT> :
+  [CURRENT] extends [Map<any, any>] ? MapUpdater<TARGET, CURRENT> :
+  [CURRENT] extends [Set<any>] ? SetUpdater<TARGET, CURRENT> :
   [CURRENT] extends [Leaf] ? AnySetter<TARGET, CURRENT> :
   ObjectUpdater<TARGET, CURRENT>
 
 
-export interface ArrayUpdater<TARGET, CURRENT> extends AnyUpdater<TARGET, CURRENT> {
+/**
+ * The chains built by deepUpdate and lens have the same selectors and operations: only their types differ.
+ * An updater performs its operations on its target while a lens returns a function performing them on the target it's passed.
+ */
+export interface ChainTypes<TARGET, CURRENT> {
+  updater: { chain: Updater<TARGET, CURRENT>, result: TARGET }
+  lens: { chain: Lens<TARGET, CURRENT>, result: (target: TARGET) => TARGET }
+}
+
+export type ChainKind = keyof ChainTypes<any, any>
+
+/** The chain level selecting a value of type CURRENT, either an Updater or a Lens */
+export type Chain<KIND extends ChainKind, TARGET, CURRENT> = ChainTypes<TARGET, CURRENT>[KIND]['chain']
+
+/** What the operations of a chain return */
+export type ChainResult<KIND extends ChainKind, TARGET> = ChainTypes<TARGET, unknown>[KIND]['result']
+
+
+export type ArrayItem<ARR> = [ARR] extends [any[]] ? ARR[number & keyof ARR] : never
+
+export interface ArrayChain<TARGET, CURRENT, KIND extends ChainKind> extends AnyChain<TARGET, CURRENT, KIND> {
   /**
    * Selects an Array index for update or further at() chaining
    */
-  at(index: number): Updater<TARGET, [CURRENT] extends [any[]] ? CURRENT[number & keyof CURRENT] | undefined : never>
+  at(index: number): Chain<KIND, TARGET, ArrayItem<CURRENT> | undefined>
+
+  /**
+   * Selects a nested value using a list of keys and indices, exactly like the equivalent chain of at() calls
+   */
+  path<K extends PathKey, KEYS extends K[]>(keys: [...KEYS]): PathUpdater<TARGET, CURRENT, KEYS, KIND>
+
+  /**
+   * Selects the first Array item verifying a type guard for update or further at() chaining.
+   * Aborts the whole update operation if no item matches.
+   */
+  find<B extends ArrayItem<CURRENT>>(predicate: (item: ArrayItem<CURRENT>) => item is B): Chain<KIND, TARGET, B>
+
+  /**
+   * Selects the first Array item verifying a predicate for update or further at() chaining.
+   * Aborts the whole update operation if no item matches.
+   */
+  find(predicate: (item: ArrayItem<CURRENT>) => boolean): Chain<KIND, TARGET, ArrayItem<CURRENT>>
+
+  /**
+   * Selects the first Array item having a specific value for one of its keys, for update or further at() chaining.
+   * Aborts the whole update operation if no item matches.
+   */
+  findBy<K extends keyof NonNullable<ArrayItem<CURRENT>>>(key: K, value: NonNullable<ArrayItem<CURRENT>>[K]): Chain<KIND, TARGET, NonNullable<ArrayItem<CURRENT>>>
+
+  /**
+   * Selects every Array item: the rest of the chain applies to each of them.
+   */
+  each(): Chain<KIND, TARGET, ArrayItem<CURRENT>>
+
+  /**
+   * Selects every Array item verifying a type guard: the rest of the chain applies to each of them.
+   */
+  filter<B extends ArrayItem<CURRENT>>(predicate: (item: ArrayItem<CURRENT>, index: number) => item is B): Chain<KIND, TARGET, B>
+
+  /**
+   * Selects every Array item verifying a predicate: the rest of the chain applies to each of them.
+   */
+  filter(predicate: (item: ArrayItem<CURRENT>, index: number) => boolean): Chain<KIND, TARGET, ArrayItem<CURRENT>>
+
+  /**
+   * Adds items at the end of the Array
+   */
+  push(...items: ArrayItem<CURRENT>[]): ChainResult<KIND, TARGET>
+
+  /**
+   * Adds items at the start of the Array
+   */
+  unshift(...items: ArrayItem<CURRENT>[]): ChainResult<KIND, TARGET>
+
+  /**
+   * Inserts items at an Array index, shifting the following items
+   */
+  insertAt(index: number, ...items: ArrayItem<CURRENT>[]): ChainResult<KIND, TARGET>
+
+  /**
+   * Removes the item at an Array index. Nothing is removed if the index is out of range.
+   */
+  removeAt(index: number): ChainResult<KIND, TARGET>
+
+  /**
+   * Removes and/or inserts items, like Array.prototype.splice
+   */
+  splice(start: number, deleteCount?: number, ...items: ArrayItem<CURRENT>[]): ChainResult<KIND, TARGET>
+
+  /**
+   * Moves the item at an Array index to another index. Nothing is moved if the source index is out of range.
+   */
+  move(from: number, to: number): ChainResult<KIND, TARGET>
+}
+
+export interface ArrayUpdater<TARGET, CURRENT> extends ArrayChain<TARGET, CURRENT, 'updater'>, AnyUpdater<TARGET, CURRENT> {}
+
+export type MapKey<MAP> = MAP extends Map<infer K, any> ? K : never
+export type MapValue<MAP> = MAP extends Map<any, infer V> ? V : never
+
+export interface MapChain<TARGET, CURRENT, KIND extends ChainKind> extends AnyChain<TARGET, CURRENT, KIND> {
+  /**
+   * Selects this Map key for update or further at() chaining
+   */
+  at(key: MapKey<CURRENT>): Chain<KIND, TARGET, MapValue<CURRENT> | undefined>
+
+  /**
+   * Selects a nested value using a list of keys and indices, exactly like the equivalent chain of at() calls
+   */
+  path<K extends PathKey, KEYS extends K[]>(keys: [...KEYS]): PathUpdater<TARGET, CURRENT, KEYS, KIND>
+
+  /**
+   * Selects every value of this Map: the rest of the chain applies to each of them.
+   */
+  each(): Chain<KIND, TARGET, MapValue<CURRENT>>
+
+  /**
+   * Selects every value of this Map verifying a type guard: the rest of the chain applies to each of them.
+   */
+  filter<B extends MapValue<CURRENT>>(predicate: (value: MapValue<CURRENT>, key: MapKey<CURRENT>) => value is B): Chain<KIND, TARGET, B>
+
+  /**
+   * Selects every value of this Map verifying a predicate: the rest of the chain applies to each of them.
+   */
+  filter(predicate: (value: MapValue<CURRENT>, key: MapKey<CURRENT>) => boolean): Chain<KIND, TARGET, MapValue<CURRENT>>
+
+  /**
+   * Removes a key of this Map
+   */
+  remove(key: MapKey<CURRENT>): ChainResult<KIND, TARGET>
+}
+
+export interface MapUpdater<TARGET, CURRENT> extends MapChain<TARGET, CURRENT, 'updater'>, AnyUpdater<TARGET, CURRENT> {}
+
+export type SetValue<SET> = SET extends Set<infer V> ? V : never
+
+export interface SetChain<TARGET, CURRENT, KIND extends ChainKind> extends AnyChain<TARGET, CURRENT, KIND> {
+  /**
+   * Adds values to this Set
+   */
+  add(...values: SetValue<CURRENT>[]): ChainResult<KIND, TARGET>
+
+  /**
+   * Removes values from this Set
+   */
+  delete(...values: SetValue<CURRENT>[]): ChainResult<KIND, TARGET>
 }
 
-export interface ObjectUpdater<TARGET, CURRENT> extends AnyUpdater<TARGET, CURRENT> {
+export interface SetUpdater<TARGET, CURRENT> extends SetChain<TARGET, CURRENT, 'updater'>, AnyUpdater<TARGET, CURRENT> {}
+
+export type DictionaryValue<DICT> = DICT[string & keyof DICT]
+
+// Only lets a method be called if the current Object is typed as a dictionary, e.g Record<string, T>
+export type DictionaryOnly<CURRENT, METHOD> = string extends keyof CURRENT ? METHOD : never
+
+export interface ObjectChain<TARGET, CURRENT, KIND extends ChainKind> extends AnyChain<TARGET, CURRENT, KIND> {
   /**
    * Selects this Object key for update or further at() chaining
    */
-  at<K extends keyof CURRENT>(key: K): Updater<TARGET, CURRENT[K]>
+  at<K extends keyof CURRENT>(key: K): Chain<KIND, TARGET, CURRENT[K]>
+
+  /**
+   * Selects a nested value using a list of keys and indices, exactly like the equivalent chain of at() calls
+   */
+  path<K extends PathKey, KEYS extends K[]>(keys: [...KEYS]): PathUpdater<TARGET, CURRENT, KEYS, KIND>
+
+  /**
+   * Selects every value of this dictionary: the rest of the chain applies to each of them.
+   */
+  each: DictionaryOnly<CURRENT, () => Chain<KIND, TARGET, DictionaryValue<CURRENT>>>
+
+  /**
+   * Selects every value of this dictionary verifying a predicate: the rest of the chain applies to each of them.
+   */
+  filter: DictionaryOnly<CURRENT, DictionaryFilter<TARGET, DictionaryValue<CURRENT>, KIND>>
+
+  /**
+   * Performs a shallow update of the current Object, like update()
+   */
+  assign<K extends keyof CURRENT>(spec: Pick<CURRENT, K>): ChainResult<KIND, TARGET>
+
+  /**
+   * Removes a key of the current Object. Only dictionary keys and optional keys can be removed.
+   */
+  remove(key: RemovableKey<CURRENT>): ChainResult<KIND, TARGET>
+
+  /**
+   * Moves the value of a dictionary key to another key, overwriting any existing value.
+   */
+  rename: DictionaryOnly<CURRENT, (from: string, to: string) => ChainResult<KIND, TARGET>>
+
+  /**
+   * Maps every value of this dictionary. A value mapped to DELETE is removed.
+   */
+  mapValues: DictionaryOnly<CURRENT, (mapper: (value: DictionaryValue<CURRENT>, key: string) => DictionaryValue<CURRENT> | typeof DELETE) => ChainResult<KIND, TARGET>>
+}
+
+export interface ObjectUpdater<TARGET, CURRENT> extends ObjectChain<TARGET, CURRENT, 'updater'>, AnyUpdater<TARGET, CURRENT> {}
+
+export type RemovableKey<CURRENT> = string extends keyof CURRENT
+  ? string
+  : { [K in keyof CURRENT]-?: undefined extends CURRENT[K] ? K : never }[keyof CURRENT]
+
+export interface DictionaryFilter<TARGET, VALUE, KIND extends ChainKind = 'updater'> {
+  <B extends VALUE>(predicate: (value: VALUE, key: string) => value is B): Chain<KIND, TARGET, B>
+  (predicate: (value: VALUE, key: string) => boolean): Chain<KIND, TARGET, VALUE>
+}
+
+/** A key or index that can be passed to at() */
+export type PathKey = string | number | boolean | symbol | object
+
+/** The value selected by a chain of at() calls using these keys, or never if one of them can't be passed to at() */
+export type KeysValue<CURRENT, KEYS> =
+  KEYS extends [infer HEAD, ...infer TAIL] ? KeysValue<AtValue<CURRENT, HEAD>, TAIL> : CURRENT
+
+/** The Updater or Lens selected by a chain of at() calls using these keys, or never if that chain isn't valid */
+export type PathUpdater<TARGET, CURRENT, KEYS, KIND extends ChainKind = 'updater'> =
+  [KeysValue<CURRENT, KEYS>] extends [never] ? never : Chain<KIND, TARGET, KeysValue<CURRENT, KEYS>>
+
+// The value selected by at(key), mirroring the at() overloads of the different updaters
+type AtValue<CURRENT, KEY> =
+  [ContainerContent<CURRENT>] extends [never] ? NonWrappedAtValue<CURRENT, KEY> :
+  NonWrappedAtValue<ContainerContent<CURRENT> | undefined, KEY>
+
+type NonWrappedAtValue<CURRENT, KEY> =
+  [CURRENT] extends [any[]] ? (KEY extends number ? ArrayItem<CURRENT> | undefined : never) :
+  [CURRENT] extends [Map<any, any>] ? (KEY extends MapKey<CURRENT> ? MapValue<CURRENT> | undefined : never) :
+  [CURRENT] extends [Set<any>] ? never :
+  [CURRENT] extends [Leaf] ? never :
+  KEY extends keyof CURRENT ? CURRENT[KEY] : never
+
+export interface RootUpdater<TARGET> {
+  /**
+   * Performs multiple updates in one pass. Every update made with the passed updater builds on the previous ones
+   * and each container along the updated paths is only cloned once.
+   * The original target is returned if nothing actually changed.
+   */
+  batch(edits: (updater: Updater<TARGET, TARGET>) => void): TARGET
 }
 
-export interface AnySetter<TARGET, CURRENT> {
+export interface AnySetter<TARGET, CURRENT> extends WhenChain<TARGET, CURRENT, 'updater'> {
   /**
    * Sets the value at the currently selected path.
    */
@@ -70,39 +347,99 @@ export interface AnySetter<TARGET, CURRENT> {
    * Modifies the value at the specified path. The current value is passed.
    */
   modify(modifier: (value: CURRENT) => CURRENT): TARGET
+
+  /**
+   * Modifies the value at the specified path using an async modifier. The current value is passed.
+   * The path is checked before calling the modifier: if the update would be aborted, the modifier isn't called.
+   * The resolved values are then set at the paths selected before awaiting.
+   */
+  modifyAsync(modifier: (value: CURRENT) => Promise<CURRENT>): Promise<TARGET>
+
+  /**
+   * Returns the value at the currently selected path, or undefined if that path doesn't exist.
+   * If several values are selected, the first one is returned. Nothing is cloned.
+   */
+  get(): CURRENT | undefined
+
+  /**
+   * Returns the value at the currently selected path, or a default value if it is undefined.
+   */
+  getOr(defaultValue: Exclude<CURRENT, undefined>): Exclude<CURRENT, undefined>
+
+  /**
+   * Returns whether the currently selected path leads to a value other than undefined.
+   */
+  exists(): boolean
+}
+
+export interface WhenChain<TARGET, CURRENT, KIND extends ChainKind> {
+  /**
+   * Only continues with the values verifying a type guard: the other ones are left as they are, without aborting the update operation.
+   */
+  when<B extends CURRENT>(predicate: (value: CURRENT) => value is B): Chain<KIND, TARGET, B> & Otherwise<TARGET, CURRENT, B, KIND>
+
+  /**
+   * Only continues with the values verifying a predicate: the other ones are left as they are, without aborting the update operation.
+   */
+  when(predicate: (value: CURRENT) => boolean): Chain<KIND, TARGET, CURRENT> & Otherwise<TARGET, CURRENT, CURRENT, KIND>
+}
+
+export interface Otherwise<TARGET, CURRENT, B, KIND extends ChainKind = 'updater'> {
+  /**
+   * Modifies the values that don't verify the predicate of the previous when() instead of leaving them as they are.
+   */
+  otherwise(modifier: (value: CURRENT) => CURRENT): Chain<KIND, TARGET, B>
 }
 
-export interface AnyUpdater<TARGET, CURRENT> extends AnySetter<TARGET, CURRENT> {
+export interface AnyChain<TARGET, CURRENT, KIND extends ChainKind> extends WhenChain<TARGET, CURRENT, KIND> {
   /**
    * Makes the previous nullable chain level 'safe' by using a default value
    */
-  withDefault(defaultValue: CURRENT): Updater<TARGET, NonNullable<CURRENT>>
+  withDefault(defaultValue: CURRENT): Chain<KIND, TARGET, NonNullable<CURRENT>>
 
   /**
    * Aborts the whole update operation if the previous chain level is null or undefined.
    */
-  abortIfUndef(): Updater<TARGET, NonNullable<CURRENT>>
+  abortIfUndef(): Chain<KIND, TARGET, NonNullable<CURRENT>>
 
   /**
    * Aborts the whole update operation if the previous chain level doesn't verify a type guard
    */
-  abortIfNot<B extends CURRENT>(predicate: (value: CURRENT) => value is B): Updater<TARGET, B>
+  abortIfNot<B extends CURRENT>(predicate: (value: CURRENT) => value is B): Chain<KIND, TARGET, B>
 
   /**
    * Aborts the whole update operation if the previous chain level doesn't verify a predicate
    */
-  abortIfNot(predicate: (value: CURRENT) => boolean): Updater<TARGET, CURRENT>
+  abortIfNot(predicate: (value: CURRENT) => boolean): Chain<KIND, TARGET, CURRENT>
 }
 
+export interface AnyUpdater<TARGET, CURRENT> extends AnyChain<TARGET, CURRENT, 'updater'>, AnySetter<TARGET, CURRENT> {}
+
 
 interface Root {
   type: 'root'
   target: any
+  options?: UpdateOptions
+  batch?: Batch
 }
 
 interface At {
   type: 'at'
-  field: string | number
+  field: any
+  // Whether the field is a JSON pointer segment, to be converted to the actual key type of the host
+  isPointerSegment?: boolean
+  parent: any
+}
+
+interface Find {
+  type: 'find'
+  predicate: any
+  parent: any
+}
+
+interface Each {
+  type: 'each'
+  predicate?: any
   parent: any
 }
 
@@ -118,11 +455,52 @@ interface AbortIfNot {
   parent: any
 }
 
-type CloneResult =
+interface When {
+  type: 'when'
+  predicate: any
+  // Modifies the values not verifying the predicate
+  otherwise?: (value: any) => any
+  parent: any
+}
+
+// A value is replaced when it's set as a whole, as opposed to having some of its fields updated
+type UpdateResult =
   { name: 'aborted' } |
-  { name: 'result', clonedTarget: any, leafHost: any, field: any, structurallyModified: boolean }
+  { name: 'result', value: any, changed: boolean, replaced: boolean }
+
+type UpdaterData = Root | At | Find | Each | WithDefault | AbortIfNot | When
+
+/**
+ * The state shared by all the updates of a batch().
+ * Containers cloned during the batch are owned by it and can safely be updated in place by the next updates.
+ * In place updates are logged so that they can be reverted if the update they're part of ends up being aborted.
+ */
+interface Batch {
+  current: any
+  owned: Set<any>
+  undoLog: Array<() => void>
+  recorder?: PatchRecorder
+}
+
+/**
+ * The state of a single update operation
+ */
+interface UpdateContext {
+  batch?: Batch
+  // The keys leading from the target to the value currently being updated
+  path: any[]
+  // The patches describing the update so far, if they should be recorded
+  recorder?: PatchRecorder
+  // Compares the new value of a leaf with its current value, unless only references are compared
+  equals?: (currentValue: any, newValue: any) => boolean
+  // Set during the dry run of modifyAsync: the otherwise() modifiers are recorded instead of being called
+  skippedOtherwise?: Array<{ path: any[], when: _Updater }>
+}
 
-type UpdaterData = Root | At | WithDefault | AbortIfNot
+interface PatchRecorder {
+  patches: Patch[]
+  inversePatches: Patch[]
+}
 
 
 class _Updater {
@@ -132,193 +510,747 @@ class _Updater {
     return new _Updater({ type: 'at', parent: this, field: keyOrIndex })
   }
 
-  set(value: any) {
-    return this.modify(_ => value)
+  path(keys: any[]): any {
+    return keys.reduce((updater: _Updater, key) => updater.at(key), this)
   }
 
-  modify<V>(modifier: (value: V) => V) {
-    const target = this.findTarget()
-    const result = this.cloneForUpdate(target)
+  find(predicate: any): any {
+    return new _Updater({ type: 'find', parent: this, predicate })
+  }
 
-    if (result.name === 'aborted') return target
+  findBy(key: any, value: any): any {
+    return this.find((item: any) => item != null && item[key] === value)
+  }
+
+  each(): any {
+    return new _Updater({ type: 'each', parent: this })
+  }
+
+  filter(predicate: any): any {
+    return new _Updater({ type: 'each', parent: this, predicate })
+  }
 
-    const { clonedTarget, leafHost, field, structurallyModified } = result
+  set(value: any) {
+    return this.modify(_ => value)
+  }
 
-    const leafHostIsOption = isOptionLike(leafHost)
-    const currentValue = leafHostIsOption ? leafHost.get() : leafHost[field]
-    const value = modifier(currentValue)
+  modify<V>(modifier: (value: V) => V) {
+    const { target, options, batch } = this.findRoot()
+    const onPatch = options && options.onPatch
+    const current = batch ? batch.current : target
+    const recordPatches = batch ? !!batch.recorder : !!onPatch
+    const equals = equalityFunction(options)
+    const context: UpdateContext = {
+      batch,
+      path: [],
+      recorder: recordPatches ? patchRecorder() : undefined,
+      equals: equals === referenceEqual ? undefined : equals
+    }
 
-    // Actually shallow update, e.g deepUpdate(obj).set(otherObj)
-    // Not much point but the typings make it possible ¯\_(ツ)_/¯
-    if (field === '')
-      return leafHostIsOption
-        ? leafHost.Option(value)
-        : value
+    if (!batch) checkMutations(current)
 
-    let modified = structurallyModified
+    const result = this.cloneForUpdate(current, modifier, context)
 
-    if (value === DELETE) {
-      
-      if (leafHostIsOption) {
-        if (field in leafHost.value) modified = true
-        delete leafHost.value[field]
-      }
-      else {
-        if (field in leafHost) modified = true
-        delete leafHost[field]
-      } 
+    if (batch) {
+      if (result.name === 'aborted') undoBatchUpdates(batch)
+      batch.undoLog = []
     }
     else {
-      if (currentValue !== value)
-      modified = true
+      recordSnapshots(current, result.name === 'result' ? result.value : undefined)
+    }
 
-      if (leafHostIsOption) {
-        leafHost.value[field] = value
-      }
-      else {
-        // Setting a T | undefined as the value of an Option
-        // should actually build a new Option<T>
-        const finalValue = isOptionLike(currentValue)
-          ? (currentValue as any).Option(value)
-          : value
-
-        leafHost[field] = finalValue
-      }
+    if (result.name === 'aborted' || !result.changed) return current
+
+    if (batch) {
+      batch.current = result.value
+      if (batch.recorder) appendPatches(batch.recorder, context.recorder!)
+    }
+    else if (onPatch) {
+      onPatch(context.recorder!.patches, context.recorder!.inversePatches)
     }
 
-    return modified ? clonedTarget : target
+    return result.value
   }
 
-  withDefault(value: any): any {
-    return new _Updater({ type: 'withDefault', parent: this, defaultValue: clone(value) })
-  }
+  modifyAsync(modifier: (value: any) => Promise<any>): Promise<any> {
+    const target = this.findTarget()
+    const updaters: _Updater[] = this.parentUpdaters()
+    const selected: Array<{ path: any[], value: any }> = []
+    const context: UpdateContext = { path: [], skippedOtherwise: [] }
+
+    // A dry run checking the predicates and recording the paths of the selected values: nothing is updated yet
+    const dryRun = this.cloneForUpdate(target, value => {
+      selected.push({ path: context.path.slice(), value })
+      return UNCHANGED
+    }, context)
+
+    if (dryRun.name === 'aborted') return Promise.resolve(target)
+
+    return Promise.all(selected.map(s => modifier(s.value))).then(newValues => {
+      // The recorded paths are updated as is: the predicates aren't checked again
+      const edits = (root: _Updater) => {
+        context.skippedOtherwise!.forEach(({ path, when }) =>
+          replayAlong(updaters.slice(0, updaters.indexOf(when)), path, root).modify((when.data as When).otherwise!))
+
+        selected.forEach(({ path }, index) =>
+          replayAlong(updaters, path, root).set(newValues[index]))
+      }
 
-  abortIfNot(predicate: any): any {
-    return new _Updater({ type: 'abortIfNot', parent: this, predicate })
-  }
+      const root = new _Updater(this.findRoot())
+      if (!root.findRoot().batch) return root.batch(edits)
 
-  abortIfUndef(): any {
-    return this.abortIfNot((value: any) => {
-      if (isOptionLike(value)) return value.type === 'some'
-      return value !== undefined
+      edits(root)
+      return root.findTarget()
     })
   }
 
-  findTarget() {
-    let current = this
-    while (true) {
-      if (current.data.type === 'root') return current.data.target
-      current = current.data.parent
-    }
-  }
+  batch(edits: (updater: any) => void) {
+    const { target, options } = this.findRoot()
+    const onPatch = options && options.onPatch
+    const batch: Batch = { current: target, owned: new Set(), undoLog: [], recorder: onPatch ? patchRecorder() : undefined }
 
-  parentUpdaters() {
-    let updaters = [this]
-    let parentUpdater = (this.data as any).parent
+    const root: Root = { type: 'root', target, options, batch }
 
-    // Ignore the root updater
-    while (parentUpdater && parentUpdater.data.parent) {
-      updaters.unshift(parentUpdater)
-      parentUpdater = parentUpdater.data.parent
+    checkMutations(target)
+    runningBatches++
+
+    try {
+      edits(new _Updater(root))
     }
+    finally {
+      runningBatches--
 
-    return updaters
-  }
+      // The result is now handed out: an updater leaking out of the batch performs regular updates of that result
+      root.target = batch.current
+      root.batch = undefined
+    }
 
-  getNextValue(previousHost: any, host: any, field: string | number, isLast: boolean): any {
-    const hostIsOption = isOptionLike(host)
-    const previousHostIsOption = isOptionLike(previousHost)
+    batch.owned.forEach(freezeClone)
+    batch.owned.clear()
+    recordSnapshots(target, batch.current)
 
-    if (this.data.type === 'at') {
-      const newField = this.data.field
+    if (onPatch && batch.current !== target) onPatch(batch.recorder!.patches, batch.recorder!.inversePatches)
 
-      if (hostIsOption) {
-        if (host.type === 'none')
-          return { host: undefined, field: newField }
+    return batch.current
+  }
 
-        host.value = clone(host.value)
+  push(...items: any[]) {
+    return this.modifyArray(arr => { arr.push(...items) })
+  }
 
-        const value = host.value[newField]
-        const nextValue = clone(value)
-        const newHost = isLast ? host : nextValue
+  unshift(...items: any[]) {
+    return this.modifyArray(arr => { arr.unshift(...items) })
+  }
 
-        host.value[this.data.field] = nextValue
+  insertAt(index: number, ...items: any[]) {
+    return this.modifyArray(arr => { arr.splice(index, 0, ...items) })
+  }
 
-        return { host: newHost, field: newField }
-      }
-      else {
-        if (!host) return { host: undefined, field: newField }
+  removeAt(index: number) {
+    return this.modifyArray(arr => {
+      if (isArrayIndex(arr, index)) arr.splice(index, 1)
+    })
+  }
 
-        const value = host[newField]
-        const nextValue = clone(value)
-        const newHost = isLast ? host : nextValue
+  splice(start: number, deleteCount?: number, ...items: any[]) {
+    // Like Array.prototype.splice, an explicit undefined deleteCount removes nothing
+    const hasDeleteCount = arguments.length > 1
 
-        host[this.data.field] = nextValue
+    return this.modifyArray(arr => {
+      if (!hasDeleteCount) arr.splice(start)
+      else arr.splice(start, deleteCount!, ...items)
+    })
+  }
 
-        return { host: newHost, field: newField }
-      }
-    }
+  move(from: number, to: number) {
+    return this.modifyArray(arr => {
+      if (isArrayIndex(arr, from)) arr.splice(to, 0, arr.splice(from, 1)[0])
+    })
+  }
 
-    if (this.data.type === 'abortIfNot' && this.data.predicate(host) === false) {
-      return { host, field, aborted: true }
-    }
+  /**
+   * Modifies a copy of the current Array in place, only keeping it if it ends up being different
+   */
+  modifyArray(mutate: (arr: any[]) => void) {
+    return this.modifyIfChanged(arr => {
+      const newArray = arr.slice()
+      mutate(newArray)
+      return shallowEqualArrays(arr, newArray) ? arr : freezeClone(newArray)
+    })
+  }
 
-    if (this.data.type === 'withDefault' && (previousHost[field] === undefined || isOptionLike(previousHost[field]))) {
-      const nextValue = isOptionLike(host)
-        ? host.Option(this.data.defaultValue)
-        : this.data.defaultValue
+  assign(spec: any) {
+    return this.modifyIfChanged(obj => update(obj, spec))
+  }
 
-      const newHost = isLast
-        ? previousHost
-        : nextValue
+  remove(key: any) {
+    return this.modifyIfChanged(obj => {
+      if (!(obj instanceof Map)) return update(obj, { [key]: DELETE })
+      if (!obj.has(key)) return obj
 
-      if (previousHostIsOption)
-        previousHost.value[field] = nextValue
-      else
-        previousHost[field] = nextValue
+      const result = new Map(obj)
+      result.delete(key)
+      return result
+    })
+  }
 
-      return { host: newHost, field, structurallyModified: true }
-    }
+  add(...values: any[]) {
+    return this.modifySet(set => values.forEach(value => set.add(value)))
+  }
 
-    const newHost = isLast ? previousHost : host
-    return { host: newHost, field }
+  delete(...values: any[]) {
+    return this.modifySet(set => values.forEach(value => set.delete(value)))
   }
 
-  cloneForUpdate(target: any): CloneResult {
-    const updaters = this.parentUpdaters()
-    const obj = cloneContainer(target)
+  /**
+   * Modifies a copy of the current Set in place, only keeping it if it ends up being different
+   */
+  modifySet(mutate: (set: Set<any>) => void) {
+    return this.modifyIfChanged((set: Set<any>) => {
+      const newSet = new Set(set)
+      mutate(newSet)
+      return sameSetValues(set, newSet) ? set : newSet
+    })
+  }
 
-    let previousHost = obj
-    let host = obj
-    let field: string | number = ''
-    let structurallyModified = false
+  rename(from: string, to: string) {
+    return this.modifyIfChanged(obj => {
+      if (from === to || !Object.prototype.hasOwnProperty.call(obj, from)) return obj
 
-    for (let i = 0; i < updaters.length; i++) {
+      const result = cloneObject(obj)
+      result[to] = result[from]
+      delete result[from]
+      return freezeClone(result)
+    })
+  }
 
-      const result = updaters[i].getNextValue(
-        previousHost,
-        host,
-        field,
-        i === updaters.length - 1
-      )
+  mapValues(mapper: (value: any, key: string) => any) {
+    return this.modifyIfChanged(obj => {
+      const result = cloneObject(obj)
+      let hasChanged = false
+
+      Object.keys(obj).forEach(key => {
+        const value = mapper(obj[key], key)
+
+        if (value === DELETE) delete result[key]
+        else result[key] = value
+
+        hasChanged = hasChanged || value !== obj[key]
+      })
+
+      return hasChanged ? freezeClone(result) : obj
+    })
+  }
+
+  /**
+   * Like modify(), but a modifier returning the very same value is always a no-op, even inside an Option.
+   */
+  modifyIfChanged(modifier: (value: any) => any) {
+    return this.modify((value: any) => {
+      const newValue = modifier(value)
+      return newValue === value ? UNCHANGED : newValue
+    })
+  }
+
+  withDefault(value: any): any {
+    return new _Updater({ type: 'withDefault', parent: this, defaultValue: clone(value) })
+  }
+
+  abortIfNot(predicate: any): any {
+    return new _Updater({ type: 'abortIfNot', parent: this, predicate })
+  }
+
+  abortIfUndef(): any {
+    return this.abortIfNot((value: any) => containerContent(value) !== undefined)
+  }
+
+  when(predicate: any): any {
+    return new _Updater({ type: 'when', parent: this, predicate })
+  }
+
+  otherwise(modifier: (value: any) => any): any {
+    return new _Updater({ ...this.data as When, otherwise: modifier })
+  }
+
+  get() {
+    const values = this.selectedValues()
+    return values.length === 0 ? undefined : containerContent(values[0])
+  }
+
+  getOr(defaultValue: any) {
+    const value = this.get()
+    return value === undefined ? defaultValue : value
+  }
+
+  exists() {
+    return this.selectedValues().some(value => containerContent(value) !== undefined)
+  }
+
+  /**
+   * Walks the selected path in the current target, without cloning or updating anything.
+   */
+  selectedValues(): any[] {
+    const { batch } = this.findRoot()
+    const values = this.parentUpdaters().reduce(
+      (values, updater) => values.reduce((next, value) => next.concat(updater.selectNextValues(value)), [] as any[]),
+      [this.findTarget()]
+    )
+
+    // The values are handed out: the batch can't update them in place anymore
+    if (batch) values.forEach(value => releaseOwned(batch, value))
+
+    return values
+  }
+
+  /**
+   * The read only counterpart of getNextValue: lists the values selected by this chain level.
+   */
+  selectNextValues(value: any): any[] {
+    const data = this.data
+    const host = containerContent(value)
+
+    if (data.type === 'at') {
+      if (!isContainer(host)) return [undefined]
+      const field = data.isPointerSegment ? pointerSegmentKey(host, data.field) : data.field
+      return [getField(host, field)]
+    }
+
+    if (data.type === 'find') {
+      const index = host == null ? -1 : findIndex(host, data.predicate)
+      return index === -1 ? [] : [getField(host, index)]
+    }
+
+    if (data.type === 'each') {
+      const predicate = data.predicate
+      const fields = host == null ? [] : containerKeys(host)
+      return (predicate ? fields.filter(f => predicate(getField(host, f), f)) : fields).map(f => getField(host, f))
+    }
+
+    if (data.type === 'abortIfNot')
+      return data.predicate(value) === false ? [] : [value]
+
+    if (data.type === 'when')
+      return data.predicate(host) ? [value] : []
+
+    if (data.type === 'withDefault')
+      return [host === undefined ? data.defaultValue : value]
+
+    return [value]
+  }
+
+  findRoot(): Root {
+    let current = this
+    while (true) {
+      if (current.data.type === 'root') return current.data
+      current = current.data.parent
+    }
+  }
+
+  findTarget() {
+    const root = this.findRoot()
+    return root.batch ? root.batch.current : root.target
+  }
+
+  parentUpdaters() {
+    let updaters = [this]
+    let parentUpdater = (this.data as any).parent
+
+    // Ignore the root updater
+    while (parentUpdater && parentUpdater.data.parent) {
+      updaters.unshift(parentUpdater)
+      parentUpdater = parentUpdater.data.parent
+    }
+
+    return updaters
+  }
+
+  /**
+   * Computes the next value of the current chain level.
+   * `next` performs the rest of the update from the value selected by this updater.
+   */
+  getNextValue(value: any, next: (value: any) => UpdateResult, context: UpdateContext): UpdateResult {
+    const data = this.data
+
+    if (data.type === 'at') {
+      const field = data.isPointerSegment
+        ? pointerSegmentKey(containerContent(value), data.field)
+        : data.field
+
+      return updateFields(value, [field], next, context)
+    }
+
+    if (data.type === 'find') {
+      const host = containerContent(value)
+      const index = host == null ? -1 : findIndex(host, data.predicate)
+      if (index === -1) return { name: 'aborted' }
+      return updateFields(value, [index], next, context)
+    }
+
+    if (data.type === 'each') {
+      const host = containerContent(value)
+      const predicate = data.predicate
+      const fields = host == null ? [] : containerKeys(host)
+      return updateFields(value, predicate ? fields.filter(f => predicate(getField(host, f), f)) : fields, next, context)
+    }
+
+    if (data.type === 'abortIfNot' && data.predicate(value) === false) {
+      return { name: 'aborted' }
+    }
+
+    // The rest of the chain is skipped for this value only
+    if (data.type === 'when' && !data.predicate(containerContent(value))) {
+      if (data.otherwise && context.skippedOtherwise) {
+        context.skippedOtherwise.push({ path: context.path.slice(), when: this })
+        return unchanged(value)
+      }
+      return data.otherwise ? modifyLeaf(value, data.otherwise, context) : unchanged(value)
+    }
+
+    const adapter = findAdapter(value)
+
+    if (data.type === 'withDefault' && (value === undefined || adapter)) {
+      const defaultValue = adapter
+        ? adapter.set(value, data.defaultValue)
+        : data.defaultValue
+
+      // The default value is new as a whole: only record its final state
+      const recorder = context.recorder
+      context.recorder = undefined
+      const result = next(defaultValue)
+      context.recorder = recorder
+
+      // Using the default value is a modification in itself
+      return result.name === 'aborted'
+        ? result
+        : replaced(result.value)
+    }
+
+    return next(value)
+  }
+
+  cloneForUpdate(target: any, modifier: (value: any) => any, context: UpdateContext): UpdateResult {
+    const updaters = this.parentUpdaters()
+
+    const step = (index: number) => (value: any): UpdateResult =>
+      index === updaters.length
+        ? modifyLeaf(value, modifier, context)
+        : updaters[index].getNextValue(value, step(index + 1), context)
+
+    const result = step(0)(target)
+
+    if (context.recorder && result.name === 'result' && result.replaced)
+      recordPatch(context.recorder, [], undefined, '', target, result.value)
+
+    return result
+  }
+}
+
+/**
+ * Replays a chain of updaters on top of another updater, along keys recorded by a previous update.
+ * Keys replace the selections made by at(), find() and each(); predicates are skipped but default values are kept.
+ */
+function replayAlong(updaters: _Updater[], keys: any[], base: _Updater): _Updater {
+  let keyIndex = 0
+
+  return updaters.reduce((parent, u) => {
+    const data = u.data
+
+    if (data.type === 'at' || data.type === 'find' || data.type === 'each')
+      return new _Updater({ type: 'at', parent, field: keys[keyIndex++] })
+
+    if (data.type === 'withDefault')
+      return new _Updater({ ...data, parent })
+
+    return parent
+  }, base)
+}
+
+/**
+ * Updates some fields of an Object or Array, possibly wrapped in an Option.
+ * The host is only cloned if at least one of these fields' value actually changed.
+ */
+function updateFields(value: any, fields: any[], next: (value: any) => UpdateResult, context: UpdateContext): UpdateResult {
+  const { batch, path, recorder } = context
+  const host = containerContent(value)
+  const changes: Array<{ field: any, value: any }> = []
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i]
+    const fieldValue = host == null ? undefined : getField(host, field)
+
+    path.push(field)
+    const result = next(fieldValue)
+    path.pop()
+
+    if (result.name === 'aborted') return result
+    if (!result.changed) continue
+    if (result.value === DELETE && !hasField(host, field)) continue
+
+    if (recorder && result.replaced)
+      recordPatch(recorder, path.concat([field]), host, field, fieldValue, result.value)
+
+    changes.push({ field, value: result.value })
+  }
+
+  if (changes.length === 0) return unchanged(value)
+
+  const newHost = batch ? ownedClone(batch, host) : cloneContainer(host)
+
+  changes.forEach(change => {
+    if (newHost === host) logFieldUpdate(batch!, host, change.field)
+
+    if (change.value === DELETE)
+      deleteField(newHost, change.field)
+    else
+      setField(newHost, change.field, change.value)
+  })
+
+  // Owned containers may still be updated in place: they're frozen at the end of the batch
+  if (!batch) freezeClone(newHost)
+
+  const adapter = findAdapter(value)
+  return changed(adapter ? adapter.set(value, newHost) : newHost)
+}
 
-      if (result.aborted)
-        return { name: 'aborted' }
+/**
+ * Records the JSON patch corresponding to the replacement of a field's value, as well as its inverse.
+ * Containers such as Options are seen through: an empty container is treated like a missing value.
+ */
+function recordPatch(recorder: PatchRecorder, path: any[], host: any, field: any, previousValue: any, value: any) {
+  const pointer = toJsonPointer(path)
+  const previous = containerContent(previousValue)
+  const next = value === DELETE ? undefined : containerContent(value)
+
+  const record = (patch: Patch, inversePatch: Patch) => {
+    recorder.patches.push(patch)
+    recorder.inversePatches.unshift(inversePatch)
+  }
+
+  const itemPointer = (index: number) => toJsonPointer(path.slice(0, -1).concat([index]))
 
-      structurallyModified = structurallyModified || result.structurallyModified
-      previousHost = host
-      host = result.host
-      field = result.field
+  if (Array.isArray(host) && field === 'length') {
+    // Writing the length of an Array removes its last items, or adds holes serialized as null
+    for (let index = host.length - 1; index >= next; index--) {
+      const item = containerContent(host[index])
+      record({ op: 'remove', path: itemPointer(index) }, { op: 'add', path: itemPointer(index), value: item === undefined ? null : item })
     }
 
-    return {
-      name: 'result',
-      clonedTarget: obj,
-      leafHost: host,
-      field,
-      structurallyModified
+    for (let index = host.length; index < next; index++)
+      record({ op: 'add', path: itemPointer(index), value: null }, { op: 'remove', path: itemPointer(index) })
+  }
+  else if (Array.isArray(host)) {
+    if (field >= host.length) {
+      // The skipped indices are holes, serialized as null: JSON patches can only add an item at the end of an Array
+      for (let index = host.length; index < field; index++)
+        record({ op: 'add', path: itemPointer(index), value: null }, { op: 'remove', path: itemPointer(index) })
+
+      record({ op: 'add', path: pointer, value: next }, { op: 'remove', path: pointer })
     }
+    // Deleting an Array item leaves a hole, serialized as null
+    else
+      record(
+        { op: 'replace', path: pointer, value: next === undefined ? null : next },
+        { op: 'replace', path: pointer, value: previous === undefined ? null : previous }
+      )
+  }
+  else if (next === undefined) {
+    if (previous !== undefined)
+      record({ op: 'remove', path: pointer }, { op: 'add', path: pointer, value: previous })
+  }
+  else if (previous === undefined && host !== undefined) {
+    record({ op: 'add', path: pointer, value: next }, { op: 'remove', path: pointer })
+  }
+  else {
+    record({ op: 'replace', path: pointer, value: next }, { op: 'replace', path: pointer, value: previous })
+  }
+}
+
+function patchRecorder(): PatchRecorder {
+  return { patches: [], inversePatches: [] }
+}
+
+function appendPatches(recorder: PatchRecorder, other: PatchRecorder) {
+  recorder.patches.push(...other.patches)
+  recorder.inversePatches.unshift(...other.inversePatches)
+}
+
+function toJsonPointer(path: any[]) {
+  return path.map(key => '/' + String(key).replace(/~/g, '~0').replace(/\//g, '~1')).join('')
+}
+
+function modifyLeaf(currentValue: any, modifier: (value: any) => any, context: UpdateContext): UpdateResult {
+  const adapter = findAdapter(currentValue)
+  const content = adapter ? adapter.get(currentValue) : currentValue
+
+  // The modifier may keep the current value, and the new one may also be found elsewhere in the target
+  if (context.batch) releaseOwned(context.batch, content)
+  const value = modifier(content)
+  if (context.batch) releaseOwned(context.batch, value)
+
+  if (value === UNCHANGED) return unchanged(currentValue)
+  if (context.equals && value !== DELETE && context.equals(content, value)) return unchanged(currentValue)
+  if (value !== currentValue) freezeInserted(value)
+
+  // Setting a T | undefined as the value of an Option
+  // should actually build a new Option<T>
+  if (adapter)
+    return replaced(value === DELETE ? value : adapter.set(currentValue, value))
+
+  // Whether a DELETE actually changes something is known by the host
+  return value === DELETE
+    ? replaced(value)
+    : { name: 'result', value, changed: currentValue !== value, replaced: true }
+}
+
+// Marker returned by internal modifiers to signal that the current value should be kept as is
+const UNCHANGED = {}
+
+function changed(value: any): UpdateResult {
+  return { name: 'result', value, changed: true, replaced: false }
+}
+
+function replaced(value: any): UpdateResult {
+  return { name: 'result', value, changed: true, replaced: true }
+}
+
+function unchanged(value: any): UpdateResult {
+  return { name: 'result', value, changed: false, replaced: false }
+}
+
+function ownedClone(batch: Batch, obj: any) {
+  if (batch.owned.has(obj)) return obj
+
+  const cloned = cloneContainer(obj)
+  batch.owned.add(cloned)
+  return cloned
+}
+
+/**
+ * Gives up the ownership of a container and of the owned containers it holds, as a reference to them is leaving the batch.
+ * They're frozen if configured to, as they won't be updated in place anymore.
+ */
+function releaseOwned(batch: Batch, value: any) {
+  const content = containerContent(value)
+  if (!batch.owned.delete(content)) return
+
+  freezeClone(content)
+  containerKeys(content).forEach(key => releaseOwned(batch, getField(content, key)))
+}
+
+function logFieldUpdate(batch: Batch, host: any, field: any) {
+  const hadField = hasField(host, field)
+  const previousValue = getField(host, field)
+
+  batch.undoLog.push(() => {
+    if (hadField) setField(host, field, previousValue)
+    else deleteField(host, field)
+  })
+}
+
+function undoBatchUpdates(batch: Batch) {
+  for (let i = batch.undoLog.length - 1; i >= 0; i--) batch.undoLog[i]()
+}
+
+function findIndex(arr: any[], predicate: (item: any) => boolean) {
+  for (let i = 0; i < arr.length; i++) {
+    if (predicate(arr[i])) return i
+  }
+
+  return -1
+}
+
+function containerKeys(host: any): any[] {
+  if (Array.isArray(host)) return host.map((_, index) => index)
+
+  if (host instanceof Map) {
+    const keys: any[] = []
+    host.forEach((_, key) => keys.push(key))
+    return keys
+  }
+
+  return Object.keys(host)
+}
+
+function getField(host: any, field: any) {
+  return host instanceof Map ? host.get(field) : host[field]
+}
+
+function hasField(host: any, field: any) {
+  return host instanceof Map ? host.has(field) : field in host
+}
+
+function setField(host: any, field: any, value: any) {
+  if (host instanceof Map) host.set(field, value)
+  else host[field] = value
+}
+
+function deleteField(host: any, field: any) {
+  if (host instanceof Map) host.delete(field)
+  else delete host[field]
+}
+
+function isArrayIndex(arr: any[], index: number) {
+  return index >= 0 && index < arr.length
+}
+
+function sameSetValues(a: Set<any>, b: Set<any>) {
+  if (a.size !== b.size) return false
+
+  let same = true
+  a.forEach(value => { same = same && b.has(value) })
+  return same
+}
+
+function equalityFunction(options: UpdateOptions | undefined): (a: any, b: any) => boolean {
+  const equality = (options && options.equality) || configuration.equality
+
+  if (equality === 'shallow') return shallowEqual
+  if (equality === 'deep') return deepEqual
+  if (equality === 'reference') return referenceEqual
+  return equality
+}
+
+function referenceEqual(a: any, b: any) {
+  return a === b
+}
+
+function shallowEqual(a: any, b: any) {
+  return structurallyEqual(a, b, referenceEqual)
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return structurallyEqual(a, b, deepEqual)
+}
+
+// Compares two containers of the same kind and prototype, using a comparison function for their values
+function structurallyEqual(a: any, b: any, equalValues: (a: any, b: any) => boolean) {
+  if (a === b) return true
+  if (!isContainer(a) || !isContainer(b) || a === DELETE || b === DELETE) return false
+
+  const adapter = findAdapter(a)
+
+  if (adapter || findAdapter(b))
+    return adapter === findAdapter(b) && equalValues(adapter!.get(a), adapter!.get(b))
+
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false
+  if (a instanceof Date) return a.getTime() === b.getTime()
+  if (a instanceof Set) return sameSetValues(a, b)
+
+  const aKeys = containerKeys(a)
+  const bKeys = containerKeys(b)
+
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => hasField(b, key) && equalValues(getField(a, key), getField(b, key)))
+}
+
+function shallowEqualArrays(a: any[], b: any[]) {
+  if (a.length !== b.length) return false
+
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
   }
+
+  return true
 }
 
 // TODO: This probably won't fly with some weird edge cases like deepUpdate(new Date()).set(), etc
@@ -333,32 +1265,1324 @@ function clone(obj: any) {
 
 function cloneContainer(obj: any): any {
   if (Array.isArray(obj)) return obj.slice()
-  if (isOptionLike(obj)) return obj.map(identity)
+  if (obj instanceof Map) return new Map(obj)
+  if (obj instanceof Set) return new Set(obj)
+  const adapter = findAdapter(obj)
+  if (adapter) return adapter.clone(obj)
   return cloneObject(obj)
 }
 
+/**
+ * The objects known to only have enumerable data properties keyed by strings, that can be cloned by simple assignment.
+ * Only the clones made by the library and frozen objects are remembered: other objects could gain other kinds of properties later.
+ */
+const simpleObjects = new WeakSet<object>()
+
 function cloneObject(obj: any): any {
-  const cloned = {}
-  Object.keys(obj).forEach(key => { (cloned as any)[key] = (obj as any)[key] })
+  if (configuration.plainObjects) {
+    const plainClone = {}
+    Object.keys(obj).forEach(key => { (plainClone as any)[key] = (obj as any)[key] })
+    return plainClone
+  }
+
+  const proto = Object.getPrototypeOf(obj)
+  const cloned = proto === Object.prototype ? {} : Object.create(proto)
+  const isSimple = simpleObjects.has(obj)
+  let count = 0
+
+  for (let key in obj) {
+    if (!Object.prototype.hasOwnProperty.call(obj, key)) continue
+    if (!isSimple && !('value' in Object.getOwnPropertyDescriptor(obj, key)!)) return cloneObjectProperties(obj)
+
+    cloned[key] = obj[key]
+    count++
+  }
+
+  // Looking for non enumerable properties is costly: it's skipped for the objects already known to have none
+  if (!isSimple) {
+    if (Object.getOwnPropertyNames(obj).length !== count || Object.getOwnPropertySymbols(obj).length > 0)
+      return cloneObjectProperties(obj)
+
+    if (Object.isFrozen(obj)) simpleObjects.add(obj)
+  }
+
+  simpleObjects.add(cloned)
   return cloned
 }
 
-function identity(x: any) {
-  return x
+// Clones every property of an object, including accessors, non enumerable properties and symbols
+function cloneObjectProperties(obj: any): any {
+  const cloned = Object.create(Object.getPrototypeOf(obj))
+  const keys: PropertyKey[] = Object.getOwnPropertyNames(obj)
+
+  keys.concat(Object.getOwnPropertySymbols(obj)).forEach(key => {
+    const { get, set, value, enumerable } = Object.getOwnPropertyDescriptor(obj, key)!
+
+    // The clone is always writable, even if obj was frozen
+    const descriptor = get || set
+      ? { get, set, enumerable, configurable: true }
+      : { value, enumerable, writable: true, configurable: true }
+
+    Object.defineProperty(cloned, key, descriptor)
+  })
+
+  return cloned
+}
+
+export function deepUpdate<TARGET>(target: TARGET, options?: UpdateOptions): Updater<TARGET, TARGET> & RootUpdater<TARGET> {
+  return new _Updater({ type: 'root', target, options }) as any as Updater<TARGET, TARGET> & RootUpdater<TARGET>
 }
 
+
+//--------------------------------------
+//  Patches
+//--------------------------------------
+
 /**
- * Meant to match space-lift/option, but without requiring a hard (cyclic) dependency.
+ * Applies a JSON Patch (RFC 6902) document, such as the patches passed to onPatch, to a target.
+ * Only the containers along the patched paths are cloned, each of them at most once.
+ * The original target is returned if a test operation fails or if nothing actually changed.
+ * An Error is thrown if an operation refers to a missing path.
  */
-interface OptionLike<A> {
-  get(): A | undefined
-  map<B>(fn: (a: A) => B | null | undefined): OptionLike<B>
+export function applyPatch<TARGET>(target: TARGET, patch: Patch[]): TARGET {
+  try {
+    return new _Updater({ type: 'root', target }).batch(root => {
+      patch.forEach(operation => applyPatchOperation(root, operation))
+    })
+  }
+  catch (error) {
+    if (error === TEST_FAILED) return target
+    throw error
+  }
 }
 
-function isOptionLike(obj: any) {
-  return !!obj && (obj.type === 'some' || obj.type === 'none') && obj.Option
+/** Alias of applyPatch */
+export const applyPatches = applyPatch
+
+// Thrown to abort the whole patch
+const TEST_FAILED = {}
+
+function applyPatchOperation(root: _Updater, operation: Patch) {
+  if (operation.op === 'test') {
+    if (!jsonEqual(readPointer(root.findTarget(), operation.path), operation.value)) throw TEST_FAILED
+  }
+  else if (operation.op === 'move') {
+    if (operation.path.indexOf(operation.from + '/') === 0)
+      throw new Error(`Cannot move ${operation.from} to one of its children`)
+
+    const value = readPointer(root.findTarget(), operation.from)
+    writePointer(root, operation.from, 'remove', undefined)
+    writePointer(root, operation.path, 'add', value)
+  }
+  else if (operation.op === 'copy') {
+    writePointer(root, operation.path, 'add', readPointer(root.findTarget(), operation.from))
+  }
+  else {
+    writePointer(root, operation.path, operation.op, operation.op === 'remove' ? undefined : operation.value)
+  }
 }
 
-export function deepUpdate<TARGET>(target: TARGET): Updater<TARGET, TARGET> {
-  return new _Updater({ type: 'root', target }) as any as Updater<TARGET, TARGET>
-}
\ No newline at end of file
+function writePointer(root: _Updater, pointer: string, op: 'add' | 'remove' | 'replace', value: any) {
+  const segments = parseJsonPointer(pointer)
+
+  if (segments.length === 0) {
+    root.set(value)
+    return
+  }
+
+  const parent = segments.slice(0, -1).reduce(
+    (updater, segment) => new _Updater({ type: 'at', parent: updater, field: segment, isPointerSegment: true }),
+    root
+  )
+
+  parent.modifyIfChanged(host => {
+    const result = patchHost(host, segments[segments.length - 1], pointer, op, value)
+    return result === host ? host : freezeClone(result)
+  })
+}
+
+// Applies a patch operation to the host of the last pointer segment
+function patchHost(host: any, segment: string, pointer: string, op: 'add' | 'remove' | 'replace', value: any) {
+  if (!isContainer(host))
+    throw new Error(`Cannot apply a patch operation on ${pointer}: its parent doesn't exist`)
+
+  if (Array.isArray(host)) {
+    const index = segment === '-' && op === 'add' ? host.length : arrayIndex(segment)
+    const maxIndex = op === 'add' ? host.length : host.length - 1
+
+    if (index === undefined || index > maxIndex)
+      throw new Error(`Cannot apply a patch operation on ${pointer}: invalid Array index`)
+
+    const result = host.slice()
+
+    if (op === 'add') result.splice(index, 0, value)
+    else if (op === 'remove') result.splice(index, 1)
+    else if (host[index] === value) return host
+    else result[index] = value
+
+    return result
+  }
+
+  const key = pointerSegmentKey(host, segment)
+
+  if (op !== 'add' && !hasField(host, key))
+    throw new Error(`Cannot apply a patch operation on ${pointer}: it doesn't exist`)
+
+  const currentValue = getField(host, key)
+  const adapter = findAdapter(currentValue)
+  const result = cloneContainer(host)
+
+  // Containers are seen through, e.g removing an Option's value yields a None
+  if (adapter) {
+    setField(result, key, adapter.set(currentValue, value))
+    return result
+  }
+
+  if (op === 'remove') {
+    deleteField(result, key)
+    return result
+  }
+
+  if (hasField(host, key) && currentValue === value) return host
+
+  setField(result, key, value)
+  return result
+}
+
+// Reads the value a JSON pointer refers to, seeing through containers
+function readPointer(target: any, pointer: string) {
+  return parseJsonPointer(pointer).reduce((value, segment) => {
+    const host = containerContent(value)
+    const key = isContainer(host) ? pointerSegmentKey(host, segment) : undefined
+
+    if (key === undefined || !hasField(host, key))
+      throw new Error(`Cannot read ${pointer}: it doesn't exist`)
+
+    return getField(host, key)
+  }, target)
+}
+
+function arrayIndex(segment: string) {
+  return /^(0|[1-9][0-9]*)$/.test(segment) ? Number(segment) : undefined
+}
+
+// Compares two values the way their JSON representations would be compared, seeing through containers
+function jsonEqual(a: any, b: any): boolean {
+  a = containerContent(a)
+  b = containerContent(b)
+
+  if (a === b) return true
+  if (!isContainer(a) || !isContainer(b) || Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aKeys = containerKeys(a)
+  const bKeys = containerKeys(b)
+
+  if (aKeys.length !== bKeys.length) return false
+
+  return aKeys.every(key => hasField(b, key) && jsonEqual(getField(a, key), getField(b, key)))
+}
+
+function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return []
+
+  if (pointer.charAt(0) !== '/')
+    throw new Error(`Invalid JSON pointer: ${pointer}`)
+
+  return pointer.substring(1).split('/').map(segment =>
+    segment.replace(/~1/g, '/').replace(/~0/g, '~')
+  )
+}
+
+// Converts a JSON pointer segment (always a string) to the matching key of a host
+function pointerSegmentKey(host: any, segment: string): any {
+  if (Array.isArray(host)) {
+    // As in JSON patches, '-' refers to the index following the last item
+    if (segment === '-') return host.length
+
+    const index = arrayIndex(segment)
+    if (index === undefined) throw new Error(`Invalid Array index: ${segment}`)
+    return index
+  }
+
+  if (host instanceof Map) {
+    const keys = containerKeys(host)
+
+    for (let i = 0; i < keys.length; i++) {
+      if (String(keys[i]) === segment) return keys[i]
+    }
+  }
+
+  return segment
+}
+
+
+//--------------------------------------
+//  String paths
+//--------------------------------------
+
+/**
+ * The type of the value found at a dotted path (e.g 'prefs.theme') or JSON pointer (e.g '/friends/2'),
+ * seeing through nullable values and containers. never if the path doesn't exist.
+ */
+export type PathValue<T, P extends string> =
+  string extends P ? any :
+  P extends '' ? T :
+  P extends `/${infer POINTER}` ? SegmentsValue<T, Split<POINTER, '/'>, true> :
+  SegmentsValue<T, Split<P, '.'>, false>
+
+/** A path literal, only if it exists in T */
+export type ValidPath<T, P extends string> = [PathValue<T, P>] extends [never] ? never : P
+
+type Split<S extends string, SEPARATOR extends string> =
+  S extends `${infer HEAD}${SEPARATOR}${infer TAIL}` ? [HEAD, ...Split<TAIL, SEPARATOR>] : [S]
+
+type SegmentsValue<T, SEGMENTS, IS_POINTER extends boolean> =
+  SEGMENTS extends [infer HEAD, ...infer TAIL]
+    ? SegmentsValue<
+        SegmentValue<NonNullable<Unwrapped<T>>, IS_POINTER extends true ? UnescapePointerSegment<HEAD> : HEAD>,
+        TAIL,
+        IS_POINTER
+      >
+    : Unwrapped<T>
+
+type SegmentValue<T, SEGMENT> =
+  T extends any[] ? (SEGMENT extends `${number}` | '-' ? ArrayItem<T> | undefined : never) :
+  T extends Map<any, infer V> ? V | undefined :
+  SEGMENT extends keyof T ? T[SEGMENT] : never
+
+type Unwrapped<T> = [ContainerContent<T>] extends [never] ? T : ContainerContent<T> | undefined
+
+type UnescapePointerSegment<S> = Unescape<Unescape<S, '~1', '/'>, '~0', '~'>
+
+type Unescape<S, ESCAPED extends string, CHAR extends string> =
+  S extends `${infer HEAD}${ESCAPED}${infer TAIL}` ? `${HEAD}${CHAR}${Unescape<TAIL, ESCAPED, CHAR>}` : S
+
+/**
+ * Sets the value found at a dotted path (e.g 'prefs.theme') or JSON pointer (e.g '/friends/2').
+ * Numeric segments are Array indices and '-' appends an item. Any other segment of an Array throws an Error.
+ * The update is aborted if a parent of that value is missing.
+ */
+export function setIn<TARGET, P extends string>(
+  target: TARGET,
+  path: P & ValidPath<TARGET, P>,
+  value: PathValue<TARGET, P>,
+  options?: UpdateOptions
+): TARGET {
+  return pathUpdater(target, parsePath(path), options).set(value)
+}
+
+/**
+ * Modifies the value found at a dotted path or JSON pointer. The current value is passed.
+ * The update is aborted if a parent of that value is missing.
+ */
+export function modifyIn<TARGET, P extends string>(
+  target: TARGET,
+  path: P & ValidPath<TARGET, P>,
+  modifier: (value: PathValue<TARGET, P>) => PathValue<TARGET, P>,
+  options?: UpdateOptions
+): TARGET {
+  return pathUpdater(target, parsePath(path), options).modify(modifier)
+}
+
+/**
+ * Deletes the key found at a dotted path or JSON pointer. Array items are removed, shifting the next ones.
+ * The original target is returned if that key or one of its parents is missing.
+ */
+export function deleteIn<TARGET, P extends string>(
+  target: TARGET,
+  path: P & ValidPath<TARGET, P>,
+  options?: UpdateOptions
+): TARGET {
+  const segments = parsePath(path)
+
+  if (segments.length === 0)
+    throw new Error('Cannot delete the target itself')
+
+  const lastSegment = segments[segments.length - 1]
+
+  return pathUpdater(target, segments.slice(0, -1), options)
+    .abortIfUndef()
+    .modifyIfChanged((host: any) => {
+      if (!isContainer(host)) return host
+
+      const key = pointerSegmentKey(host, lastSegment)
+
+      if (Array.isArray(host)) {
+        if (!isArrayIndex(host, key)) return host
+        const result = host.slice()
+        result.splice(key, 1)
+        return freezeClone(result)
+      }
+
+      return new _Updater({ type: 'root', target: host }).remove(key)
+    })
+}
+
+// Selects the value at the end of some path segments, aborting if one of its parents is missing
+function pathUpdater(target: any, segments: string[], options: UpdateOptions | undefined): _Updater {
+  return segments.reduce(
+    (updater, segment, index) => new _Updater({
+      type: 'at',
+      parent: index === 0 ? updater : updater.abortIfUndef(),
+      field: segment,
+      isPointerSegment: true
+    }),
+    new _Updater({ type: 'root', target, options })
+  )
+}
+
+// Converts a dotted path or JSON pointer to JSON pointer segments
+function parsePath(path: string): string[] {
+  if (path === '' || path.charAt(0) === '/') return parseJsonPointer(path)
+  return path.split('.')
+}
+
+
+//--------------------------------------
+//  Lenses
+//--------------------------------------
+
+/**
+ * A path that isn't bound to any target, built like a deepUpdate chain.
+ */
+export type Lens<TARGET, CURRENT> =
+  [ContainerContent<CURRENT>] extends [never] ? NonWrappedLens<TARGET, CURRENT> :
+  ObjectLens<TARGET, ContainerContent<CURRENT> | undefined>
+
+export type NonWrappedLens<TARGET, CURRENT> =
+  [CURRENT] extends [any[]] ? ArrayLens<TARGET, CURRENT> :
+  [CURRENT] extends [Map<any, any>] ? MapLens<TARGET, CURRENT> :
+  [CURRENT] extends [Set<any>] ? SetLens<TARGET, CURRENT> :
+  [CURRENT] extends [Leaf] ? LensSetter<TARGET, CURRENT> :
+  ObjectLens<TARGET, CURRENT>
+
+export interface ArrayLens<TARGET, CURRENT> extends ArrayChain<TARGET, CURRENT, 'lens'>, AnyLens<TARGET, CURRENT> {}
+
+export interface MapLens<TARGET, CURRENT> extends MapChain<TARGET, CURRENT, 'lens'>, AnyLens<TARGET, CURRENT> {}
+
+export interface SetLens<TARGET, CURRENT> extends SetChain<TARGET, CURRENT, 'lens'>, AnyLens<TARGET, CURRENT> {}
+
+export interface ObjectLens<TARGET, CURRENT> extends ObjectChain<TARGET, CURRENT, 'lens'>, AnyLens<TARGET, CURRENT> {}
+
+export interface LensSetter<TARGET, CURRENT> extends WhenChain<TARGET, CURRENT, 'lens'> {
+  /**
+   * Returns the value found at this path in a target, or undefined if that path doesn't exist.
+   */
+  get(target: TARGET): CURRENT | undefined
+
+  /**
+   * Sets the value found at this path in a target. A new target is returned.
+   */
+  set(target: TARGET, value: CURRENT): TARGET
+
+  /**
+   * Returns a function setting the value found at this path in the target it's passed.
+   */
+  set(value: CURRENT): (target: TARGET) => TARGET
+
+  /**
+   * Modifies the value found at this path in a target. The current value is passed.
+   */
+  modify(target: TARGET, modifier: (value: CURRENT) => CURRENT): TARGET
+
+  /**
+   * Returns a function modifying the value found at this path in the target it's passed.
+   */
+  modify(modifier: (value: CURRENT) => CURRENT): (target: TARGET) => TARGET
+}
+
+export interface AnyLens<TARGET, CURRENT> extends AnyChain<TARGET, CURRENT, 'lens'>, LensSetter<TARGET, CURRENT> {
+  /**
+   * Continues this path with the path of another lens, focused on the current value.
+   */
+  compose<B>(lens: LensSetter<CURRENT, B>): Lens<TARGET, B>
+}
+
+/**
+ * Builds a lens: a path defined once, using the same chain as deepUpdate, that can then be used on many targets.
+ */
+export function lens<TARGET>(): Lens<TARGET, TARGET> {
+  return new _Lens(new _Updater({ type: 'root', target: undefined })) as any as Lens<TARGET, TARGET>
+}
+
+class _Lens {
+  constructor(public updater: _Updater) {}
+
+  at(keyOrIndex: any) {
+    return new _Lens(this.updater.at(keyOrIndex))
+  }
+
+  path(keys: any[]) {
+    return new _Lens(this.updater.path(keys))
+  }
+
+  find(predicate: any) {
+    return new _Lens(this.updater.find(predicate))
+  }
+
+  findBy(key: any, value: any) {
+    return new _Lens(this.updater.findBy(key, value))
+  }
+
+  each() {
+    return new _Lens(this.updater.each())
+  }
+
+  filter(predicate: any) {
+    return new _Lens(this.updater.filter(predicate))
+  }
+
+  withDefault(value: any) {
+    return new _Lens(this.updater.withDefault(value))
+  }
+
+  abortIfUndef() {
+    return new _Lens(this.updater.abortIfUndef())
+  }
+
+  abortIfNot(predicate: any) {
+    return new _Lens(this.updater.abortIfNot(predicate))
+  }
+
+  when(predicate: any) {
+    return new _Lens(this.updater.when(predicate))
+  }
+
+  otherwise(modifier: (value: any) => any) {
+    return new _Lens(this.updater.otherwise(modifier))
+  }
+
+  compose(lens: _Lens) {
+    return new _Lens(rebase(lens.updater, this.updater))
+  }
+
+  push(...items: any[]) {
+    return this.operation(u => u.push(...items))
+  }
+
+  unshift(...items: any[]) {
+    return this.operation(u => u.unshift(...items))
+  }
+
+  insertAt(index: number, ...items: any[]) {
+    return this.operation(u => u.insertAt(index, ...items))
+  }
+
+  removeAt(index: number) {
+    return this.operation(u => u.removeAt(index))
+  }
+
+  // The arguments are passed as is: splice() distinguishes a missing deleteCount from an undefined one
+  splice(start: number, ...rest: any[]) {
+    return this.operation(u => u.splice(start, ...rest))
+  }
+
+  move(from: number, to: number) {
+    return this.operation(u => u.move(from, to))
+  }
+
+  assign(spec: any) {
+    return this.operation(u => u.assign(spec))
+  }
+
+  remove(key: any) {
+    return this.operation(u => u.remove(key))
+  }
+
+  add(...values: any[]) {
+    return this.operation(u => u.add(...values))
+  }
+
+  delete(...values: any[]) {
+    return this.operation(u => u.delete(...values))
+  }
+
+  rename(from: string, to: string) {
+    return this.operation(u => u.rename(from, to))
+  }
+
+  mapValues(mapper: (value: any, key: string) => any) {
+    return this.operation(u => u.mapValues(mapper))
+  }
+
+  get(target: any) {
+    return this.bind(target).get()
+  }
+
+  set(target: any, value?: any): any {
+    if (arguments.length === 1) return (t: any) => this.set(t, target)
+    return this.bind(target).set(value)
+  }
+
+  modify(target: any, modifier?: (value: any) => any): any {
+    if (arguments.length === 1) return (t: any) => this.modify(t, target)
+    return this.bind(target).modify(modifier!)
+  }
+
+  // The operations of a lens return a function performing them on the target it's passed
+  operation(perform: (updater: _Updater) => any) {
+    return (target: any) => perform(this.bind(target))
+  }
+
+  // Replays this path on an updater bound to a target
+  bind(target: any) {
+    return rebase(this.updater, new _Updater({ type: 'root', target }))
+  }
+}
+
+// Replays the chain of an updater, from its root, on top of another updater
+function rebase(updater: _Updater, base: _Updater): _Updater {
+  return updater.parentUpdaters()
+    .filter(u => u.data.type !== 'root')
+    .reduce((parent, u) => new _Updater({ ...u.data, parent } as UpdaterData), base)
+}
+
+
+//--------------------------------------
+//  Three-way merge
+//--------------------------------------
+
+export interface MergeOptions {
+  /**
+   * Resolves a conflict, i.e a value changed differently by both sides. Returns the value to keep, or DELETE to remove it.
+   * By default, our value is kept.
+   */
+  onConflict?: (conflict: MergeConflict) => any
+}
+
+export interface MergeConflict {
+  /** The keys leading from the root to the conflicting value */
+  path: any[]
+  /** The value in the common ancestor. DELETE if it was missing. */
+  base: any
+  /** Our value. DELETE if it was removed. */
+  ours: any
+  /** Their value. DELETE if it was removed. */
+  theirs: any
+}
+
+/**
+ * Merges two states derived from a common ancestor, keeping the changes made on both sides.
+ * Subtrees that are the same reference on one side as in the ancestor are taken from the other side without being walked.
+ * Objects, Maps and Options changed on both sides are merged key by key, as well as Arrays whose length didn't change.
+ * Any other value changed differently on both sides is a conflict.
+ */
+export function merge3<TARGET>(base: TARGET, ours: TARGET, theirs: TARGET, options?: MergeOptions): TARGET {
+  const onConflict = (options && options.onConflict) || ((conflict: MergeConflict) => conflict.ours)
+  return mergeValues(base, ours, theirs, [], onConflict)
+}
+
+function mergeValues(base: any, ours: any, theirs: any, path: any[], onConflict: (conflict: MergeConflict) => any): any {
+  if (ours === theirs || base === theirs) return ours
+  if (base === ours) return theirs
+
+  const kind = containerKind(ours)
+
+  if (kind !== undefined && kind === containerKind(base) && kind === containerKind(theirs)) {
+    if (typeof kind !== 'string') {
+      const ourContent = kind.get(ours)
+      const theirContent = kind.get(theirs)
+      const content = mergeValues(kind.get(base), ourContent, theirContent, path, onConflict)
+
+      if (content === ourContent) return ours
+      if (content === theirContent) return theirs
+      return kind.set(ours, content)
+    }
+
+    if (kind !== 'array' || (ours.length === base.length && theirs.length === base.length))
+      return mergeFields(base, ours, theirs, path, onConflict)
+  }
+
+  return onConflict({ path: path.slice(), base, ours, theirs })
+}
+
+// Merges two containers of the same kind key by key, only cloning ours if one of its keys has to change
+function mergeFields(base: any, ours: any, theirs: any, path: any[], onConflict: (conflict: MergeConflict) => any) {
+  const keys: any[] = []
+  new Set(containerKeys(ours).concat(containerKeys(theirs), containerKeys(base))).forEach(key => keys.push(key))
+  const fieldOf = (host: any, key: any) => hasField(host, key) ? getField(host, key) : DELETE
+  let result = ours
+
+  keys.forEach(key => {
+    const ourValue = fieldOf(ours, key)
+
+    path.push(key)
+    const value = mergeValues(fieldOf(base, key), ourValue, fieldOf(theirs, key), path, onConflict)
+    path.pop()
+
+    if (value === ourValue) return
+    if (result === ours) result = cloneContainer(ours)
+
+    if (value === DELETE) deleteField(result, key)
+    else setField(result, key, value)
+  })
+
+  return result === ours ? ours : freezeClone(result)
+}
+
+// The kind of a container that can be merged or compared key by key, or undefined if it is taken as a whole
+function containerKind(value: any): ContainerAdapter | 'array' | 'map' | 'object' | undefined {
+  if (!isContainer(value) || value === DELETE || value instanceof Set || value instanceof Date) return undefined
+
+  return findAdapter(value) ||
+    (Array.isArray(value) ? 'array' : value instanceof Map ? 'map' : 'object')
+}
+
+
+//--------------------------------------
+//  Diff
+//--------------------------------------
+
+/** A change found by diff() */
+export interface Change {
+  /** add: the value didn't exist before, remove: it doesn't exist anymore, replace: it changed */
+  op: 'add' | 'remove' | 'replace'
+  /** The keys leading from the root to the changed value. Containers such as Options are seen through. */
+  path: any[]
+  oldValue: any
+  newValue: any
+}
+
+export interface DiffOptions {
+  /**
+   * Matches the items of Arrays of entities by key rather than by index, e.g 'id'.
+   * Arrays whose items don't all have a distinct key are still compared by index.
+   */
+  arrayKey?: string | ((item: any) => any)
+}
+
+/**
+ * Lists the changes between two states. Subtrees that are the same reference in both states are not walked.
+ * Options and other containers are seen through: an empty container is treated like a missing value.
+ * The changes are listed in an order that lets them be applied one after the other, e.g as a JSON Patch.
+ */
+export function diff<TARGET>(prev: TARGET, next: TARGET, options?: DiffOptions): Change[] {
+  const changes: Change[] = []
+  diffValues(prev, next, [], changes, options || {})
+  return changes
+}
+
+/**
+ * Converts the changes found by diff() to a JSON Patch (RFC 6902) document.
+ */
+export function toJsonPatch(changes: Change[]): Patch[] {
+  return changes.map((change): Patch => {
+    const path = toJsonPointer(change.path)
+
+    if (change.op === 'remove') return { op: 'remove', path }
+
+    // An Array item that became undefined leaves a hole, serialized as null
+    const value = change.newValue === undefined ? null : change.newValue
+    return { op: change.op, path, value }
+  })
+}
+
+function diffValues(prev: any, next: any, path: any[], changes: Change[], options: DiffOptions) {
+  if (prev === next) return
+
+  const prevContent = containerContent(prev)
+  const nextContent = containerContent(next)
+
+  if (prevContent === nextContent) return
+
+  const kind = containerKind(prevContent)
+
+  if (typeof kind === 'string' && kind === containerKind(nextContent)) {
+    if (kind === 'array') diffArrays(prevContent, nextContent, path, changes, options)
+    else diffFields(prevContent, nextContent, path, changes, options)
+    return
+  }
+
+  const op = prevContent === undefined ? 'add' : nextContent === undefined ? 'remove' : 'replace'
+  changes.push({ op, path: path.slice(), oldValue: prevContent, newValue: nextContent })
+}
+
+function diffFields(prev: any, next: any, path: any[], changes: Change[], options: DiffOptions) {
+  const prevKeys = containerKeys(prev)
+  const prevKeySet = new Set(prevKeys)
+  const keys = prevKeys.concat(containerKeys(next).filter(key => !prevKeySet.has(key)))
+
+  keys.forEach(key => {
+    path.push(key)
+    diffValues(getField(prev, key), getField(next, key), path, changes, options)
+    path.pop()
+  })
+}
+
+function diffArrays(prev: any[], next: any[], path: any[], changes: Change[], options: DiffOptions) {
+  const keyOf = typeof options.arrayKey === 'string'
+    ? (item: any) => item == null ? undefined : item[options.arrayKey as string]
+    : options.arrayKey
+
+  const prevKeys = keyOf && entityKeys(prev, keyOf)
+  const nextKeys = keyOf && entityKeys(next, keyOf)
+
+  const itemChange = (op: Change['op'], index: number, oldValue: any, newValue: any) =>
+    changes.push({ op, path: path.concat([index]), oldValue, newValue })
+
+  // Changing an item to or from undefined doesn't shift the next ones
+  const diffItem = (prevItem: any, nextItem: any, index: number) => {
+    if (prevItem !== nextItem && (containerContent(prevItem) === undefined || containerContent(nextItem) === undefined)) {
+      itemChange('replace', index, containerContent(prevItem), containerContent(nextItem))
+      return
+    }
+
+    path.push(index)
+    diffValues(prevItem, nextItem, path, changes, options)
+    path.pop()
+  }
+
+  if (prevKeys && nextKeys) {
+    const nextIndices = new Map(nextKeys.map((key, index) => [key, index] as [any, number]))
+    const prevIndices = new Map(prevKeys.map((key, index) => [key, index] as [any, number]))
+    const keptPrevKeys = prevKeys.filter(key => nextIndices.has(key))
+    const keptNextKeys = nextKeys.filter(key => prevIndices.has(key))
+
+    // Entities were reordered
+    if (!shallowEqualArrays(keptPrevKeys, keptNextKeys)) {
+      changes.push({ op: 'replace', path: path.slice(), oldValue: prev, newValue: next })
+      return
+    }
+
+    for (let i = prev.length - 1; i >= 0; i--) {
+      if (!nextIndices.has(prevKeys[i])) itemChange('remove', i, prev[i], undefined)
+    }
+
+    next.forEach((item, index) => {
+      const prevIndex = prevIndices.get(nextKeys[index])
+      if (prevIndex === undefined) itemChange('add', index, undefined, item)
+      else diffItem(prev[prevIndex], item, index)
+    })
+
+    return
+  }
+
+  const commonLength = Math.min(prev.length, next.length)
+
+  for (let i = 0; i < commonLength; i++) diffItem(prev[i], next[i], i)
+  for (let i = commonLength; i < next.length; i++) itemChange('add', i, undefined, next[i])
+  for (let i = prev.length - 1; i >= commonLength; i--) itemChange('remove', i, prev[i], undefined)
+}
+
+// The keys of an Array of entities, or undefined if an item doesn't have a distinct key
+function entityKeys(arr: any[], keyOf: (item: any) => any): any[] | undefined {
+  const keys = arr.map(keyOf)
+  const distinct = keys.every(key => key !== undefined) && new Set(keys).size === keys.length
+  return distinct ? keys : undefined
+}
+
+
+//--------------------------------------
+//  Drafts
+//--------------------------------------
+
+/**
+ * The mutable view of a value passed to produce(). Options and other containers are seen through.
+ */
+export type Draft<T> =
+  [ContainerContent<T>] extends [never] ? NonWrappedDraft<T> :
+  Draft<ContainerContent<T>> | undefined
+
+export type NonWrappedDraft<T> =
+  T extends Leaf ? T :
+  T extends Map<infer K, infer V> ? Map<K, Draft<V>> :
+  T extends Set<any> ? T :
+  { -readonly [K in keyof T]: Draft<T[K]> }
+
+/**
+ * Updates a target by mutating a draft of it: the mutations are applied with the same copy on write rules as deepUpdate.
+ * Only the containers along the mutated paths are cloned, at most once, and the original target is returned if nothing changed.
+ * Assigning DELETE to a key removes it. Maps and Sets are mutated using their own methods.
+ * A draft can't be used anymore once produce() returned.
+ */
+export function produce<TARGET>(target: TARGET, recipe: (draft: Draft<TARGET>) => void, options?: UpdateOptions): TARGET {
+  const context: DraftContext = { root: undefined!, active: true, paths: new WeakMap() }
+
+  try {
+    return new _Updater({ type: 'root', target, options }).batch(root => {
+      context.root = root
+      recipe(draftAt(context, []))
+    })
+  }
+  finally {
+    context.active = false
+  }
+}
+
+interface DraftContext {
+  // The updater of the batch used to apply the mutations
+  root: _Updater
+  active: boolean
+  // The path of each draft
+  paths: WeakMap<object, any[]>
+}
+
+// Returns a draft of the value at a path, or the value itself if it can't be drafted
+function draftAt(context: DraftContext, path: any[]): any {
+  const value = readDraftValue(context, path)
+  if (!isDraftable(value)) return value
+
+  const handler: ProxyHandler<any> =
+    value instanceof Map ? mapDraftHandler(context, path) :
+    value instanceof Set ? setDraftHandler(context, path) :
+    objectDraftHandler(context, path)
+
+  const draft = new Proxy(draftTarget(value), handler)
+  context.paths.set(draft, path)
+  return draft
+}
+
+function objectDraftHandler(context: DraftContext, path: any[]): ProxyHandler<any> {
+  const children = new Map<any, { draft: any, proto: any }>()
+  const read = () => readDraftValue(context, path)
+  const fieldKey = (key: PropertyKey) => {
+    const index = Array.isArray(read()) && typeof key === 'string' ? arrayIndex(key) : undefined
+    return index === undefined ? key : index
+  }
+
+  return {
+    get(_, key, receiver) {
+      const current = read()
+      if (!Object.prototype.hasOwnProperty.call(current, key)) return Reflect.get(current, key, receiver)
+
+      const field = fieldKey(key)
+      const value = containerContent(current[key])
+
+      if (!isDraftable(value)) return value
+
+      // Drafts are only valid as long as their value keeps the same kind
+      const child = children.get(field)
+      if (child && child.proto === Object.getPrototypeOf(value)) return child.draft
+
+      const draft = draftAt(context, path.concat([field]))
+      children.set(field, { draft, proto: Object.getPrototypeOf(value) })
+      return draft
+    },
+
+    set(_, key, value) {
+      writeDraftValue(context, path.concat([fieldKey(key)]), value)
+      return true
+    },
+
+    deleteProperty(_, key) {
+      writeDraftValue(context, path.concat([fieldKey(key)]), DELETE)
+      return true
+    },
+
+    defineProperty(_, key, descriptor) {
+      writeDraftValue(context, path.concat([fieldKey(key)]), descriptor.value)
+      return true
+    },
+
+    has(_, key) {
+      return key in read()
+    },
+
+    ownKeys() {
+      return Reflect.ownKeys(read())
+    },
+
+    getOwnPropertyDescriptor(_, key) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(read(), key)
+
+      // The proxy target doesn't have these properties: they can't be reported as non configurable, except for an Array length
+      if (descriptor) {
+        descriptor.writable = descriptor.writable || 'value' in descriptor
+        descriptor.configurable = descriptor.configurable || !(Array.isArray(read()) && key === 'length')
+      }
+
+      return descriptor
+    }
+  }
+}
+
+function mapDraftHandler(context: DraftContext, path: any[]): ProxyHandler<any> {
+  const read = () => readDraftValue(context, path)
+
+  return {
+    get(_, key, receiver) {
+      if (key === 'get') return (k: any) => read().has(k) ? draftAt(context, path.concat([k])) : undefined
+      if (key === 'set') return (k: any, value: any) => {
+        writeDraftValue(context, path.concat([k]), value)
+        return receiver
+      }
+      if (key === 'delete') return (k: any) => {
+        const had = read().has(k)
+        writeDraftValue(context, path.concat([k]), DELETE)
+        return had
+      }
+      if (key === 'clear') return () => containerKeys(read()).forEach(k => writeDraftValue(context, path.concat([k]), DELETE))
+
+      return readThrough(read(), key)
+    }
+  }
+}
+
+function setDraftHandler(context: DraftContext, path: any[]): ProxyHandler<any> {
+  const read = () => readDraftValue(context, path)
+  const updater = () => context.root.path(path)
+
+  return {
+    get(_, key, receiver) {
+      if (key === 'add') return (value: any) => {
+        updater().add(unwrapDrafts(context, value))
+        return receiver
+      }
+      if (key === 'delete') return (value: any) => {
+        const had = read().has(value)
+        updater().delete(value)
+        return had
+      }
+      if (key === 'clear') return () => {
+        const values: any[] = []
+        read().forEach((value: any) => values.push(value))
+        updater().delete(...values)
+      }
+
+      return readThrough(read(), key)
+    }
+  }
+}
+
+// Reads a property of a Map or Set, binding its methods to it
+function readThrough(host: any, key: PropertyKey) {
+  const value = Reflect.get(host, key, host)
+  return typeof value === 'function' ? value.bind(host) : value
+}
+
+function readDraftValue(context: DraftContext, path: any[]) {
+  if (!context.active) throw new Error(`A draft can't be used once produce() returned`)
+
+  return path.reduce((host, key) =>
+    isContainer(host) ? containerContent(getField(host, key)) : undefined,
+    containerContent(context.root.findTarget()))
+}
+
+function writeDraftValue(context: DraftContext, path: any[], value: any) {
+  if (!context.active) throw new Error(`A draft can't be used once produce() returned`)
+  context.root.path(path).set(unwrapDrafts(context, value))
+}
+
+// Replaces the drafts found in a value written to a draft by a snapshot of their current value
+function unwrapDrafts(context: DraftContext, value: any): any {
+  const path = isContainer(value) ? context.paths.get(value) : undefined
+
+  // The current value now has a second location: the batch must stop updating it in place
+  if (path) {
+    const current = readDraftValue(context, path)
+    releaseOwned(context.root.findRoot().batch!, current)
+    return current
+  }
+
+  if (Array.isArray(value) || (isContainer(value) && Object.getPrototypeOf(value) === Object.prototype)) {
+    Object.keys(value).forEach(key => {
+      const unwrapped = unwrapDrafts(context, value[key])
+      if (unwrapped !== value[key]) value[key] = unwrapped
+    })
+  }
+
+  return value
+}
+
+function isDraftable(value: any) {
+  return isContainer(value) && value !== DELETE && !(value instanceof Date)
+}
+
+// The target of a draft Proxy. The drafted value itself isn't used as it may be frozen, which Proxies would have to reflect.
+function draftTarget(value: any) {
+  if (Array.isArray(value)) return []
+  if (value instanceof Map) return new Map()
+  if (value instanceof Set) return new Set()
+  return Object.create(Object.getPrototypeOf(value))
+}
+
+
+//--------------------------------------
+//  Reducers
+//--------------------------------------
+
+export interface Action {
+  type: string
+}
+
+/**
+ * The handler of each action type of a reducer. A handler updates the state using an updater rooted on it.
+ */
+export type ReducerHandlers<STATE, ACTION extends Action> = {
+  [TYPE in ACTION['type']]?: (updater: Updater<STATE, STATE> & RootUpdater<STATE>, action: Extract<ACTION, { type: TYPE }>) => STATE
+}
+
+/**
+ * Creates a Redux style reducer from the handlers of each action type.
+ * The initial state is used when the reducer is called without a state. Actions without a handler return the state as it is.
+ */
+export function createReducer<STATE, ACTION extends Action = Action>(
+  initial: STATE,
+  handlers: ReducerHandlers<STATE, ACTION>,
+  options?: UpdateOptions): (state: STATE | undefined, action: ACTION) => STATE {
+
+  return (state = initial, action) => {
+    const handler: ((updater: any, action: ACTION) => STATE) | undefined =
+      Object.prototype.hasOwnProperty.call(handlers, action.type) ? (handlers as any)[action.type] : undefined
+
+    return handler ? handler(deepUpdate(state, options), action) : state
+  }
+}
+
+/**
+ * Composes several updaters: each one updates the state returned by the previous one.
+ * As updates return their target when nothing changed, the original state is returned if none of the updaters changed anything.
+ */
+export function combineUpdaters<STATE>(...updaters: Array<(state: STATE) => STATE>): (state: STATE) => STATE {
+  return state => updaters.reduce((current, updater) => updater(current), state)
+}
+
+/**
+ * Passes a state through several updaters, e.g the functions returned by lens set() and modify().
+ * The original state is returned if none of the updaters changed anything.
+ */
+export function pipe<STATE>(state: STATE, ...updaters: Array<(state: STATE) => STATE>): STATE {
+  return combineUpdaters(...updaters)(state)
+}
+
+
+//--------------------------------------
+//  Containers
+//--------------------------------------
+
+/**
+ * Describes a wrapper type (e.g an Option) that deepUpdate should see through,
+ * exactly like a T | undefined value.
+ */
+export interface ContainerAdapter<C = any, A = any> {
+  /** Returns whether a value is one of these containers */
+  test(value: any): boolean
+
+  /** Returns the content of a container, or undefined if it is empty */
+  get(container: C): A | undefined
+
+  /** Returns a new container of the same kind with a new content */
+  set(container: C, value: A | undefined): C
+
+  /** Returns a shallow copy of a container */
+  clone(container: C): C
+}
+
+/**
+ * The content type of the containers known by the Updater type.
+ * Add a key to this interface through declaration merging to register the typings of a new container, e.g:
+ *
+ * declare module 'immupdate' {
+ *   interface ContainerTypes<C> {
+ *     lazy: C extends Lazy<infer A> ? A : never
+ *   }
+ * }
+ */
+export interface ContainerTypes<C> {
+  option: C extends OptionLike<infer A> ? A : never
+}
+
+export type ContainerContent<C> = ContainerTypes<C>[keyof ContainerTypes<C>]
+
+/**
+ * Meant to match space-lift/option, but without requiring a hard (cyclic) dependency.
+ */
+interface OptionLike<A> {
+  get(): A | undefined
+  map<B>(fn: (a: A) => B | null | undefined): OptionLike<B>
+}
+
+function isOptionLike(obj: any) {
+  return !!obj && (obj.type === 'some' || obj.type === 'none') && obj.Option
+}
+
+const optionAdapter: ContainerAdapter = {
+  test: isOptionLike,
+  get: option => option.get(),
+  set: (option, value) => option.Option(value),
+  clone: option => option.map(identity)
+}
+
+const adapters: ContainerAdapter[] = [optionAdapter]
+
+/**
+ * Registers a new kind of container that update operations should see through.
+ * The most recently registered containers are tested first.
+ */
+export function registerContainer<C, A>(adapter: ContainerAdapter<C, A>) {
+  adapters.unshift(adapter)
+}
+
+function findAdapter(value: any): ContainerAdapter | undefined {
+  if (!isContainer(value)) return undefined
+
+  for (let i = 0; i < adapters.length; i++) {
+    if (adapters[i].test(value)) return adapters[i]
+  }
+
+  return undefined
+}
+
+// Returns the value wrapped by a container, or the value itself if it isn't wrapped
+function containerContent(value: any) {
+  const adapter = findAdapter(value)
+  return adapter ? adapter.get(value) : value
+}
+
+function identity(x: any) {
+  return x
+}
+
+
+//--------------------------------------
+//  Configuration
+//--------------------------------------
+
+export interface Configuration {
+  /**
+   * Clones Objects as plain Objects made of their own enumerable string keys.
+   * Their prototype, symbol keys, getters and non enumerable properties are then dropped. Defaults to false.
+   */
+  plainObjects: boolean
+
+  /**
+   * Development mode: freezes the Objects and Arrays created by updates, so that mutating them throws in strict mode.
+   * 'deep' also deeply freezes the values inserted by updates. Defaults to false.
+   */
+  freeze: boolean | 'deep'
+
+  /**
+   * Debugging mode: reports the objects passed to or returned by updates that were later mutated in place.
+   * The path of each mutation is passed to the function, or logged as a warning if true.
+   * Every object is then walked on each update: it should only be enabled during development. Defaults to false.
+   */
+  detectMutations: boolean | ((path: string) => void)
+
+  /**
+   * How a new value is compared to the current one by default. Defaults to 'reference'.
+   */
+  equality: Equality
+}
+
+const configuration: Configuration = {
+  plainObjects: false,
+  freeze: false,
+  detectMutations: false,
+  equality: 'reference'
+}
+
+/** Changes the global configuration of update() and deepUpdate() */
+export function configure(options: Partial<Configuration>) {
+  for (let key in options) {
+    (configuration as any)[key] = options[key as keyof Configuration]
+  }
+}
+
+// Freezes an Object or Array created by an update once it's final, if configured to
+function freezeClone<T>(container: T): T {
+  if (configuration.freeze && isFreezable(container)) Object.freeze(container)
+  return container
+}
+
+// Deeply freezes a value inserted by an update, if configured to
+function freezeInserted(value: any) {
+  if (configuration.freeze === 'deep') deepFreeze(value)
+}
+
+function deepFreeze(value: any) {
+  const adapter = findAdapter(value)
+
+  if (adapter) {
+    deepFreeze(adapter.get(value))
+  }
+  else if (value instanceof Map || value instanceof Set) {
+    value.forEach((v: any) => deepFreeze(v))
+  }
+  else if (isFreezable(value) && !Object.isFrozen(value)) {
+    Object.freeze(value)
+    Object.keys(value).forEach(key => deepFreeze(value[key]))
+  }
+}
+
+// The shallow state of every container known to be immutable, when detecting mutations
+const snapshots = new WeakMap<object, Array<[any, any]>>()
+
+// The containers owned by a running batch are legitimately updated in place: mutations aren't tracked meanwhile
+let runningBatches = 0
+
+/**
+ * Reports the containers of a value that were mutated since they were snapshotted, then updates their snapshots.
+ */
+function checkMutations(value: any) {
+  if (!configuration.detectMutations || runningBatches > 0) return
+
+  const report = configuration.detectMutations === true
+    ? (path: string) => console.warn(`immupdate: ${path} was mutated in place`)
+    : configuration.detectMutations
+
+  const visited = new Set<any>()
+
+  const check = (value: any, path: any[]) => {
+    const content = containerContent(value)
+    const snapshot = snapshots.get(content)
+
+    if (!snapshot || visited.has(content)) return
+    visited.add(content)
+
+    const entries = snapshotEntries(content)!
+    const previous = new Map(snapshot)
+    const current = new Map(entries)
+
+    const mutatedKeys = entries
+      .filter(([key, item]) => !previous.has(key) || previous.get(key) !== item)
+      .concat(snapshot.filter(([key]) => !current.has(key)))
+      .map(([key]) => key)
+
+    mutatedKeys.forEach(key => report(toJsonPointer(path.concat([key]))))
+
+    if (mutatedKeys.length > 0) snapshots.set(content, entries)
+
+    entries.forEach(([key, item]) => check(item, path.concat([key])))
+  }
+
+  check(value, [])
+}
+
+/**
+ * Snapshots the containers of values that should not be mutated anymore.
+ * Containers that are already snapshotted are shared with a previous value and aren't walked again.
+ */
+function recordSnapshots(...values: any[]) {
+  if (!configuration.detectMutations || runningBatches > 0) return
+
+  const record = (value: any) => {
+    const content = containerContent(value)
+    const entries = snapshots.has(content) ? undefined : snapshotEntries(content)
+
+    if (!entries) return
+
+    snapshots.set(content, entries)
+    entries.forEach(([_, item]) => record(item))
+  }
+
+  values.forEach(record)
+}
+
+// The keys and values of a container, or undefined if it can't be snapshotted
+function snapshotEntries(value: any): Array<[any, any]> | undefined {
+  if (!isContainer(value) || value === DELETE || value instanceof Date) return undefined
+
+  if (value instanceof Set) {
+    const entries: Array<[any, any]> = []
+    value.forEach(item => entries.push([item, item]))
+    return entries
+  }
+
+  return containerKeys(value).map(key => [key, getField(value, key)] as [any, any])
+}
+
+// Maps, Sets, Dates and other containers such as Options can't be made immutable by Object.freeze
+function isFreezable(value: any) {
+  return isContainer(value) && value !== DELETE &&
+    !(value instanceof Map || value instanceof Set || value instanceof Date) && !findAdapter(value)
+}
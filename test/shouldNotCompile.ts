@@ -1,4 +1,4 @@
-import { update, DELETE, deepUpdate } from '../'
+import { update, DELETE, deepUpdate, setIn, deleteIn, lens, merge3, diff, configure, produce, createReducer, pipe } from '../'
 import { Option } from 'space-lift'
 
 //--------------------------------------
@@ -148,4 +148,121 @@ deepUpdate({ a: Option([1, 2, 3]) }).at('a').at('hey')
 deepUpdate({ a: Option([{ name: 'John' }]) }).at('a').abortIfUndef().at(0).at('name')
 
 // Trying to access an Option<primitive>'s content as if it was an Object @shouldNotCompile
-deepUpdate({ a: Option(10) }).at('a').at('hey')
\ No newline at end of file
+deepUpdate({ a: Option(10) }).at('a').at('hey')
+
+// Batching updates from a nested level @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).at('a').batch(() => {})
+
+// Pushing an item of the wrong type @shouldNotCompile
+deepUpdate({ a: [1, 2] }).at('a').push('3')
+
+// Using an Array operation on an Object @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).at('a').push(3)
+
+// Finding an item by a non existing key @shouldNotCompile
+deepUpdate({ a: [{ id: 1 }] }).at('a').findBy('name', 'John')
+
+// Finding an item by a key with the wrong type @shouldNotCompile
+deepUpdate({ a: [{ id: 1 }] }).at('a').findBy('id', '1')
+
+// Selecting every value of a non dictionary Object @shouldNotCompile
+deepUpdate({ a: { b: 1, c: 2 } }).at('a').each()
+
+// Filtering with a predicate of the wrong type @shouldNotCompile
+deepUpdate({ a: [1, 2] }).at('a').filter((s: string) => s.length > 0)
+
+// Assigning a key with the wrong type @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).at('a').assign({ b: '2' })
+
+// Removing a mandatory key @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).at('a').remove('b')
+
+// Renaming a key of a non dictionary Object @shouldNotCompile
+deepUpdate({ a: { b: 1 } as { b?: number, c?: number } }).at('a').rename('b', 'c')
+
+// Mapping the values of a dictionary to the wrong type @shouldNotCompile
+deepUpdate({ a: {} as Record<string, number> }).at('a').mapValues(n => String(n))
+
+// Selecting a Map key of the wrong type @shouldNotCompile
+deepUpdate({ a: new Map<number, string>() }).at('a').at('1')
+
+// Setting a Map value of the wrong type @shouldNotCompile
+deepUpdate({ a: new Map<number, string>() }).at('a').at(1).set(1)
+
+// Adding a Set value of the wrong type @shouldNotCompile
+deepUpdate({ a: new Set<number>() }).at('a').add('1')
+
+// Setting a value at a non existing path @shouldNotCompile
+setIn({ a: { b: 1 } }, 'a.c', 2)
+
+// Setting a value of the wrong type at a dotted path @shouldNotCompile
+setIn({ a: { b: 1 } }, 'a.b', '2')
+
+// Using a non numeric JSON pointer segment on an Array @shouldNotCompile
+setIn({ a: [1, 2] }, '/a/first', 3)
+
+// Deleting a non existing path @shouldNotCompile
+deleteIn({ a: { b: 1 } }, 'a.b.c')
+
+// Selecting a non existing key path @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).path(['a', 'c']).set(2)
+
+// Setting a value of the wrong type at a key path @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).path(['a', 'b']).set('2')
+
+// A key path going through an Array index without a withDefault @shouldNotCompile
+deepUpdate({ a: [{ b: 1 }] }).path(['a', 0, 'b']).set(2)
+
+// Reading a value as if it was always defined @shouldNotCompile
+const readValue: number = deepUpdate({ a: [1, 2] }).at('a').at(0).get()
+
+// Using a default value of the wrong type @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).at('a').at('b').getOr('1')
+
+// Setting a value of the wrong type through a lens @shouldNotCompile
+lens<{ a: { b: number } }>().at('a').at('b').set({ a: { b: 1 } }, '2')
+
+// Applying a lens to the wrong kind of target @shouldNotCompile
+lens<{ a: { b: number } }>().at('a').get({ b: 1 })
+
+// Composing a lens focused on another type @shouldNotCompile
+lens<{ a: { b: number } }>().at('a').compose(lens<{ c: number }>().at('c'))
+
+// Selecting a nested key of a nullable value without a withDefault @shouldNotCompile
+lens<{ a?: { b: number } }>().at('a').at('b')
+
+// An async modifier resolving to the wrong type @shouldNotCompile
+deepUpdate({ a: { b: 1 } }).at('a').at('b').modifyAsync(b => Promise.resolve(String(b)))
+
+// Assigning a merged state to the wrong type @shouldNotCompile
+const merged: { a: string } = merge3({ a: 1 }, { a: 2 }, { a: 3 })
+
+// Diffing with an Array key that is neither a string nor a function @shouldNotCompile
+diff({ a: [{ id: 1 }] }, { a: [{ id: 2 }] }, { arrayKey: 1 })
+
+// Configuring an unknown freeze mode @shouldNotCompile
+configure({ freeze: 'shallow' })
+
+// Reporting mutations with a function of the wrong type @shouldNotCompile
+configure({ detectMutations: (path: number) => {} })
+
+// Using an unknown equality mode @shouldNotCompile
+deepUpdate({ a: 1 }, { equality: 'structural' })
+
+// Writing a value of the wrong type to a draft @shouldNotCompile
+produce({ a: { b: 1 } }, draft => { draft.a.b = '2' })
+
+// Handling an unknown action type @shouldNotCompile
+createReducer<{ a: number }, { type: 'inc' }>({ a: 1 }, { dec: u => u.at('a').modify(a => a - 1) })
+
+// Piping a point-free updater of another type @shouldNotCompile
+pipe({ a: 1 }, lens<{ b: number }>().at('b').set(2))
+
+// Modifying the values not verifying a when() predicate with a value of the wrong type @shouldNotCompile
+deepUpdate({ a: 1 }).at('a').when(a => a > 0).otherwise(a => String(a)).set(2)
+
+// Pushing an item of the wrong type through a lens @shouldNotCompile
+lens<{ a: number[] }>().at('a').push('1')
+
+// Adding a value of the wrong type to a Set through a lens @shouldNotCompile
+lens<{ a: Set<number> }>().at('a').add('1')
\ No newline at end of file
@@ -1,9 +1,27 @@
-import { update, DELETE, deepUpdate } from '../'
+import { update, DELETE, deepUpdate, configure, registerContainer, Patch, applyPatch, applyPatches, setIn, modifyIn, deleteIn, lens, merge3, MergeConflict, diff, toJsonPatch, UpdateOptions, produce, createReducer, combineUpdaters, pipe } from '../'
 import { Option, Some, None } from 'space-lift'
 
 const expect = require('expect')
 
 
+class Box<A> {
+  constructor(public value: A | undefined) {}
+}
+
+declare module '../' {
+  interface ContainerTypes<C> {
+    box: C extends Box<infer A> ? A : never
+  }
+}
+
+registerContainer<Box<any>, any>({
+  test: value => value instanceof Box,
+  get: box => box.value,
+  set: (_, value) => new Box(value),
+  clone: box => new Box(box.value)
+})
+
+
 describe('immupdate', () => {
 
   describe('update', () => {
@@ -1117,6 +1135,2213 @@ describe('immupdate', () => {
 
   })
 
+
+  describe('batch', () => {
+
+    it('can perform multiple updates in one pass', () => {
+      const obj = {
+        a: { b: 1, c: 'c' },
+        d: { e: [1, 2] },
+        f: { g: true }
+      }
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').at('b').set(10)
+        u.at('a').at('c').modify(c => c + 'c')
+        u.at('d').at('e').at(2).set(3)
+      })
+
+      expect(result).toEqual({
+        a: { b: 10, c: 'cc' },
+        d: { e: [1, 2, 3] },
+        f: { g: true }
+      })
+
+      expect(obj).toEqual({
+        a: { b: 1, c: 'c' },
+        d: { e: [1, 2] },
+        f: { g: true }
+      })
+
+      expect(result.a).toNotBe(obj.a)
+      expect(result.f).toBe(obj.f)
+    })
+
+    it('clones each container only once', () => {
+      const obj = { a: { b: 1, c: 2 } }
+      let afterFirstUpdate: typeof obj = obj
+
+      const result = deepUpdate(obj).batch(u => {
+        afterFirstUpdate = u.at('a').at('b').set(10)
+        u.at('a').at('c').set(20)
+      })
+
+      expect(result).toEqual({ a: { b: 10, c: 20 } })
+      expect(result).toBe(afterFirstUpdate)
+      expect(result.a).toBe(afterFirstUpdate.a)
+    })
+
+    it('lets each update see the result of the previous ones', () => {
+      const obj: { a?: { b: number } } = {}
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').withDefault({ b: 1 }).at('b').set(2)
+        u.at('a').abortIfUndef().at('b').modify(b => b * 10)
+      })
+
+      expect(result).toEqual({ a: { b: 20 } })
+    })
+
+    it('only aborts the update that was aborted', () => {
+      const obj: { a?: { b: number }, c: number } = { c: 1 }
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').abortIfUndef().at('b').set(2)
+        u.at('c').set(2)
+      })
+
+      expect(result).toEqual({ c: 2 })
+    })
+
+    it('should return original object when nothing changed', () => {
+      const obj = { a: { b: 1 }, c: [1, 2] }
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').at('b').set(1)
+        u.at('c').at(0).modify(n => n)
+      })
+
+      expect(result).toBe(obj)
+    })
+
+    it('does not mutate the result when an updater is used after the batch', () => {
+      const obj = { a: { b: 1 } }
+      let leakedUpdater: any
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').at('b').set(2)
+        leakedUpdater = u
+      })
+
+      const result2 = leakedUpdater.at('a').at('b').set(3)
+      const result3 = leakedUpdater.at('a').at('b').set(4)
+
+      expect(result).toEqual({ a: { b: 2 } })
+      expect(result2).toEqual({ a: { b: 3 } })
+      expect(result3).toEqual({ a: { b: 4 } })
+      expect(result3).toNotBe(result2)
+    })
+
+    it('does not mutate a value read during the batch', () => {
+      const obj = { a: { x: 0 } }
+      let read: { x: number } | undefined
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').at('x').set(1)
+        read = u.at('a').get()
+        u.at('a').at('x').set(2)
+      })
+
+      expect(read).toEqual({ x: 1 })
+      expect(result.a).toEqual({ x: 2 })
+    })
+
+    it('does not mutate a value written to a second location', () => {
+      const obj = { a: { x: 0 }, b: { x: 0 } }
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').at('x').set(1)
+        u.at('b').set(u.at('a').get()!)
+        u.at('a').at('x').set(2)
+      })
+
+      expect(result).toEqual({ a: { x: 2 }, b: { x: 1 } })
+    })
+
+    it('does not mutate a value passed to a modifier', () => {
+      const obj = { a: [0] }
+      let passed: number[] = []
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('a').at(0).set(5)
+        u.at('a').modify(a => { passed = a; return a })
+        u.at('a').at(0).set(9)
+      })
+
+      expect(passed).toEqual([5])
+      expect(result.a).toEqual([9])
+    })
+
+    it('does not mutate the result of a previous leaked update', () => {
+      const obj = { a: { b: 1, c: 1 } }
+      let leakedUpdater: any
+
+      deepUpdate(obj).batch(u => {
+        u.at('a').at('b').set(2)
+        leakedUpdater = u
+      })
+
+      const result = leakedUpdater.at('a').at('c').set(5)
+      leakedUpdater.at('a').at('b').set(99)
+
+      expect(result).toEqual({ a: { b: 2, c: 5 } })
+    })
+
+  })
+
+
+  describe('Array operations', () => {
+
+    const obj = {
+      a: { items: [1, 2, 3] },
+      b: { c: 'c' }
+    }
+
+    it('can push items', () => {
+      const result = deepUpdate(obj).at('a').at('items').push(4, 5)
+
+      expect(result).toEqual({ a: { items: [1, 2, 3, 4, 5] }, b: { c: 'c' } })
+      expect(obj.a.items).toEqual([1, 2, 3])
+      expect(result.b).toBe(obj.b)
+    })
+
+    it('can unshift items', () => {
+      const result = deepUpdate(obj).at('a').at('items').unshift(-1, 0)
+      expect(result.a.items).toEqual([-1, 0, 1, 2, 3])
+    })
+
+    it('can insert items at an index', () => {
+      const result = deepUpdate(obj).at('a').at('items').insertAt(1, 10, 11)
+      expect(result.a.items).toEqual([1, 10, 11, 2, 3])
+    })
+
+    it('can remove an item', () => {
+      const result = deepUpdate(obj).at('a').at('items').removeAt(1)
+      expect(result.a.items).toEqual([1, 3])
+    })
+
+    it('can splice items', () => {
+      const result = deepUpdate(obj).at('a').at('items').splice(1, 1, 20, 30)
+      expect(result.a.items).toEqual([1, 20, 30, 3])
+
+      const result2 = deepUpdate(obj).at('a').at('items').splice(1)
+      expect(result2.a.items).toEqual([1])
+
+      const result3 = deepUpdate(obj).at('a').at('items').splice(0, undefined, 9)
+      expect(result3.a.items).toEqual([9, 1, 2, 3])
+    })
+
+    it('can move an item', () => {
+      const result = deepUpdate(obj).at('a').at('items').move(0, 2)
+      expect(result.a.items).toEqual([2, 3, 1])
+
+      const result2 = deepUpdate(obj).at('a').at('items').move(2, 0)
+      expect(result2.a.items).toEqual([3, 1, 2])
+    })
+
+    it('can update an Array inside an Option', () => {
+      const optObj = { a: Some([1, 2]) }
+      const result = deepUpdate(optObj).at('a').abortIfUndef().push(3)
+
+      expect(result.a.get()).toEqual([1, 2, 3])
+      expect(optObj.a.get()).toEqual([1, 2])
+    })
+
+    it('can find an item using a predicate', () => {
+      const state = {
+        users: [
+          { id: 1, name: 'John' },
+          { id: 3, name: 'Jane' }
+        ]
+      }
+
+      const result = deepUpdate(state)
+        .at('users')
+        .find(u => u.id === 3)
+        .at('name')
+        .set('Janet')
+
+      expect(result.users).toEqual([
+        { id: 1, name: 'John' },
+        { id: 3, name: 'Janet' }
+      ])
+      expect(result.users[0]).toBe(state.users[0])
+    })
+
+    it('can find an item using a type guard', () => {
+      type A = { type: 'a', data: number }
+      type B = { type: 'b', data: string }
+      const isB = (u: A | B): u is B => u.type === 'b'
+
+      const state: { items: Array<A | B> } = {
+        items: [{ type: 'a', data: 1 }, { type: 'b', data: 'b' }]
+      }
+
+      const result = deepUpdate(state)
+        .at('items')
+        .find(isB)
+        .at('data')
+        .modify(data => data.toUpperCase())
+
+      expect(result.items).toEqual([{ type: 'a', data: 1 }, { type: 'b', data: 'B' }])
+    })
+
+    it('can find an item by key', () => {
+      const state = {
+        users: [
+          { id: 1, name: 'John' },
+          { id: 3, name: 'Jane' }
+        ]
+      }
+
+      const result = deepUpdate(state)
+        .at('users')
+        .findBy('id', 1)
+        .at('name')
+        .modify(name => `${name}ny`)
+
+      expect(result.users).toEqual([
+        { id: 1, name: 'Johnny' },
+        { id: 3, name: 'Jane' }
+      ])
+    })
+
+    it('can find an item inside an Option', () => {
+      const state = { users: Some([{ id: 1, name: 'John' }]) }
+
+      const result = deepUpdate(state)
+        .at('users')
+        .abortIfUndef()
+        .findBy('id', 1)
+        .at('name')
+        .set('Jack')
+
+      expect(result.users.get()).toEqual([{ id: 1, name: 'Jack' }])
+    })
+
+    it('aborts the update if no item can be found', () => {
+      const state = { users: [{ id: 1, name: 'John' }] }
+
+      const result = deepUpdate(state).at('users').find(u => u.id === 2).at('name').set('Jack')
+      const result2 = deepUpdate(state).at('users').findBy('id', 2).set({ id: 2, name: 'Jack' })
+
+      expect(result).toBe(state)
+      expect(result2).toBe(state)
+    })
+
+    it('should return original object on a no-op operation', () => {
+      const items = deepUpdate(obj).at('a').at('items')
+
+      expect(items.push()).toBe(obj)
+      expect(items.insertAt(1)).toBe(obj)
+      expect(items.removeAt(3)).toBe(obj)
+      expect(items.removeAt(-1)).toBe(obj)
+      expect(items.splice(1, 0)).toBe(obj)
+      expect(items.move(1, 1)).toBe(obj)
+      expect(items.move(5, 0)).toBe(obj)
+
+      const optObj = { a: Some([1, 2]) }
+      expect(deepUpdate(optObj).at('a').abortIfUndef().removeAt(5)).toBe(optObj)
+    })
+
+  })
+
+
+  describe('Multiple selections', () => {
+
+    type Todo = { id: number, project: number, done: boolean }
+
+    const todo1 = { id: 1, project: 7, done: false }
+    const todo2 = { id: 2, project: 8, done: false }
+    const todo3 = { id: 3, project: 7, done: true }
+
+    const state = {
+      todos: [todo1, todo2, todo3] as Todo[],
+      other: {}
+    }
+
+    it('can update every Array item', () => {
+      const result = deepUpdate(state).at('todos').each().at('done').set(true)
+
+      expect(result.todos).toEqual([
+        { id: 1, project: 7, done: true },
+        { id: 2, project: 8, done: true },
+        { id: 3, project: 7, done: true }
+      ])
+
+      // Only the items that changed were cloned
+      expect(result.todos[0]).toNotBe(todo1)
+      expect(result.todos[2]).toBe(todo3)
+      expect(result.other).toBe(state.other)
+    })
+
+    it('can update the Array items verifying a predicate', () => {
+      const result = deepUpdate(state)
+        .at('todos')
+        .filter(t => t.project === 7)
+        .at('done')
+        .modify(done => !done)
+
+      expect(result.todos).toEqual([
+        { id: 1, project: 7, done: true },
+        { id: 2, project: 8, done: false },
+        { id: 3, project: 7, done: false }
+      ])
+      expect(result.todos[1]).toBe(todo2)
+    })
+
+    it('can update the Array items verifying a type guard', () => {
+      type A = { type: 'a', data: number }
+      type B = { type: 'b', data: string }
+      const isA = (u: A | B): u is A => u.type === 'a'
+
+      const obj: { items: Array<A | B> } = {
+        items: [{ type: 'a', data: 1 }, { type: 'b', data: 'b' }, { type: 'a', data: 2 }]
+      }
+
+      const result = deepUpdate(obj).at('items').filter(isA).at('data').modify(n => n * 10)
+
+      expect(result.items).toEqual([{ type: 'a', data: 10 }, { type: 'b', data: 'b' }, { type: 'a', data: 20 }])
+    })
+
+    it('can update every value of a dictionary', () => {
+      type PeopleById = Record<string, { name: string, age: number }>
+
+      const obj = {
+        people: {
+          '001': { name: 'Roberto', age: 20 },
+          '002': { name: 'Jesus', age: 33 }
+        } as PeopleById
+      }
+
+      const result = deepUpdate(obj).at('people').each().at('age').modify(age => age + 1)
+
+      expect(result.people).toEqual({
+        '001': { name: 'Roberto', age: 21 },
+        '002': { name: 'Jesus', age: 34 }
+      })
+
+      const result2 = deepUpdate(obj)
+        .at('people')
+        .filter((person, id) => id === '002' && person.age > 30)
+        .at('name')
+        .set('Jesús')
+
+      expect(result2.people['002']).toEqual({ name: 'Jesús', age: 33 })
+      expect(result2.people['001']).toBe(obj.people['001'])
+    })
+
+    it('can chain multiple selections', () => {
+      const obj = { matrix: [[1, 2], [3, 4]] }
+      const result = deepUpdate(obj).at('matrix').each().filter(n => n % 2 === 0).modify(n => n * 10)
+
+      expect(result.matrix).toEqual([[1, 20], [3, 40]])
+    })
+
+    it('aborts the whole update if one of the selected items aborts it', () => {
+      const obj = { items: [{ a: 1 }, { a: 2 }] }
+
+      const result = deepUpdate(obj)
+        .at('items')
+        .each()
+        .abortIfNot(item => item.a === 1)
+        .at('a')
+        .set(10)
+
+      expect(result).toBe(obj)
+    })
+
+    it('should return original object if nothing was selected or changed', () => {
+      const result = deepUpdate(state).at('todos').filter(t => t.project === 1).at('done').set(true)
+      const result2 = deepUpdate(state).at('todos').filter(t => t.done).at('done').set(true)
+      const result3 = deepUpdate({ items: [] as number[] }).at('items').each().set(1)
+
+      expect(result).toBe(state)
+      expect(result2).toBe(state)
+      expect(result3.items).toEqual([])
+    })
+
+    it('does not leave partial updates in a batch when aborted', () => {
+      const obj = { items: [{ a: 1 }, { a: 2 }] }
+
+      const result = deepUpdate(obj).batch(u => {
+        u.at('items').at(0).abortIfUndef().at('a').set(10)
+        u.at('items').each().abortIfNot(item => item.a === 10).at('a').set(100)
+      })
+
+      expect(result.items).toEqual([{ a: 10 }, { a: 2 }])
+    })
+
+  })
+
+
+  describe('Object operations', () => {
+
+    type User = { name: string, age: number, nickname?: string }
+
+    const state = {
+      users: {
+        '01': { name: 'John', age: 30 },
+        '02': { name: 'Jane', age: 25, nickname: 'JJ' }
+      } as Record<string, User>,
+      settings: { theme: 'dark', fontSize: 12 }
+    }
+
+    it('can assign some keys', () => {
+      const result = deepUpdate(state).at('settings').assign({ fontSize: 14 })
+
+      expect(result.settings).toEqual({ theme: 'dark', fontSize: 14 })
+      expect(result.users).toBe(state.users)
+
+      const result2 = deepUpdate(state).at('users').assign({ '03': { name: 'Jack', age: 40 } })
+      expect(Object.keys(result2.users)).toEqual(['01', '02', '03'])
+    })
+
+    it('can remove a dictionary key', () => {
+      const result = deepUpdate(state).at('users').remove('01')
+      expect(result.users).toEqual({ '02': { name: 'Jane', age: 25, nickname: 'JJ' } })
+    })
+
+    it('can remove an optional key', () => {
+      const result = deepUpdate(state).at('users').at('02').abortIfUndef().remove('nickname')
+      expect(result.users['02']).toEqual({ name: 'Jane', age: 25 })
+    })
+
+    it('can rename a dictionary key', () => {
+      const result = deepUpdate(state).at('users').rename('01', '03')
+
+      expect(result.users).toEqual({
+        '02': { name: 'Jane', age: 25, nickname: 'JJ' },
+        '03': { name: 'John', age: 30 }
+      })
+      expect(result.users['03']).toBe(state.users['01'])
+    })
+
+    it('can map the values of a dictionary', () => {
+      const result = deepUpdate(state)
+        .at('users')
+        .mapValues(user => user.age > 28 ? { ...user, age: user.age + 1 } : user)
+
+      expect(result.users).toEqual({
+        '01': { name: 'John', age: 31 },
+        '02': { name: 'Jane', age: 25, nickname: 'JJ' }
+      })
+      expect(result.users['02']).toBe(state.users['02'])
+
+      const result2 = deepUpdate(state).at('users').mapValues((user, id) => id === '01' ? DELETE : user)
+      expect(Object.keys(result2.users)).toEqual(['02'])
+    })
+
+    it('can update an Object inside an Option', () => {
+      const obj = { a: Some({ b: 1, c: 2 }) }
+
+      const result = deepUpdate(obj).at('a').abortIfUndef().assign({ c: 3 })
+      expect(result.a.get()).toEqual({ b: 1, c: 3 })
+
+      const result2 = deepUpdate(obj).at('a').abortIfUndef().assign({ c: 2 })
+      expect(result2).toBe(obj)
+    })
+
+    it('should return original object on a no-op operation', () => {
+      const users = deepUpdate(state).at('users')
+
+      expect(deepUpdate(state).at('settings').assign({ theme: 'dark' })).toBe(state)
+      expect(users.remove('03')).toBe(state)
+      expect(users.rename('03', '04')).toBe(state)
+      expect(users.rename('01', '01')).toBe(state)
+      expect(users.mapValues(user => user)).toBe(state)
+    })
+
+    it('ignores the inherited keys', () => {
+      const users = deepUpdate(state).at('users')
+      const renamed = users.rename('toString', 'x')
+
+      expect(users.remove('toString')).toBe(state)
+      expect(renamed).toBe(state)
+      expect(Object.prototype.hasOwnProperty.call(renamed.users, 'x')).toBe(false)
+      expect(update(state.settings, { toString: DELETE } as any)).toBe(state.settings)
+    })
+
+  })
+
+
+  describe('Map and Set', () => {
+
+    type User = { name: string, tags: Set<string> }
+
+    const john = { name: 'John', tags: new Set(['admin']) }
+    const jane = { name: 'Jane', tags: new Set<string>() }
+
+    const state = {
+      users: new Map<number, User>([[1, john], [2, jane]])
+    }
+
+    it('can update a Map value', () => {
+      const result = deepUpdate(state)
+        .at('users')
+        .at(1)
+        .abortIfUndef()
+        .at('name')
+        .set('Johnny')
+
+      expect(result.users).toBeA(Map)
+      expect(result.users).toNotBe(state.users)
+      expect(result.users.get(1)).toEqual({ name: 'Johnny', tags: john.tags })
+      expect(result.users.get(2)).toBe(jane)
+      expect(state.users.get(1)).toBe(john)
+    })
+
+    it('can add and delete a Map value', () => {
+      const result = deepUpdate(state).at('users').at(3).set({ name: 'Jack', tags: new Set() })
+      expect(Array.from(result.users.keys())).toEqual([1, 2, 3])
+
+      const result2 = deepUpdate(state).at('users').at(1).set(DELETE)
+      expect(Array.from(result2.users.keys())).toEqual([2])
+
+      const result3 = deepUpdate(state).at('users').remove(2)
+      expect(Array.from(result3.users.keys())).toEqual([1])
+      expect(state.users.size).toBe(2)
+    })
+
+    it('can update every Map value', () => {
+      const result = deepUpdate(state)
+        .at('users')
+        .filter((_, id) => id > 1)
+        .at('name')
+        .modify(name => name.toUpperCase())
+
+      expect(result.users.get(1)).toBe(john)
+      expect(result.users.get(2)).toEqual({ name: 'JANE', tags: jane.tags })
+    })
+
+    it('can add and delete Set values', () => {
+      const result = deepUpdate(state).at('users').at(2).abortIfUndef().at('tags').add('admin', 'editor')
+
+      expect(result.users.get(2)!.tags).toBeA(Set)
+      expect(Array.from(result.users.get(2)!.tags)).toEqual(['admin', 'editor'])
+      expect(jane.tags.size).toBe(0)
+
+      const result2 = deepUpdate(state).at('users').at(1).abortIfUndef().at('tags').delete('admin')
+      expect(result2.users.get(1)!.tags.size).toBe(0)
+      expect(john.tags.size).toBe(1)
+    })
+
+    it('clones a Map or a Set used as a default value', () => {
+      const obj: { tags?: Set<string> } = {}
+      const defaultTags = new Set<string>()
+
+      const result = deepUpdate(obj).at('tags').withDefault(defaultTags).add('new')
+
+      expect(Array.from(result.tags!)).toEqual(['new'])
+      expect(defaultTags.size).toBe(0)
+    })
+
+    it('should return original object on a no-op operation', () => {
+      expect(deepUpdate(state).at('users').at(1).set(john)).toBe(state)
+      expect(deepUpdate(state).at('users').at(3).set(DELETE)).toBe(state)
+      expect(deepUpdate(state).at('users').remove(3)).toBe(state)
+      expect(deepUpdate(state).at('users').at(1).abortIfUndef().at('tags').add('admin')).toBe(state)
+      expect(deepUpdate(state).at('users').at(2).abortIfUndef().at('tags').delete('admin')).toBe(state)
+    })
+
+  })
+
+
+  describe('Cloning', () => {
+
+    const secret = Symbol('secret')
+
+    class Account {
+      [secret] = 'shh'
+
+      constructor(public owner: string, public balance: number) {
+        Object.defineProperty(this, 'internalId', { value: 42, enumerable: false })
+      }
+
+      summary!: string
+
+      deposit(amount: number) {
+        return update(this, { balance: this.balance + amount })
+      }
+    }
+
+    Object.defineProperty(Account.prototype, 'summary', {
+      get(this: Account) { return `${this.owner}: ${this.balance}` }
+    })
+
+    it('keeps the prototype of class instances', () => {
+      const account = new Account('John', 10)
+      const result = account.deposit(5)
+
+      expect(result).toBeA(Account)
+      expect(result.balance).toBe(15)
+      expect(result.summary).toBe('John: 15')
+      expect(account.balance).toBe(10)
+    })
+
+    it('keeps symbol keys and non enumerable properties', () => {
+      const state = { account: new Account('John', 10) }
+      const result = deepUpdate(state).at('account').at('owner').set('Jane')
+
+      expect(result.account).toBeA(Account)
+      expect(result.account[secret]).toBe('shh')
+      expect((result.account as any).internalId).toBe(42)
+      expect(Object.keys(result.account)).toEqual(['owner', 'balance'])
+      expect(result.account.deposit(1).summary).toBe('Jane: 11')
+    })
+
+    it('keeps the properties added to an Object after it was first cloned', () => {
+      const obj: any = { a: 1 }
+      update(obj, { a: 2 })
+
+      obj[secret] = 'shh'
+      Object.defineProperty(obj, 'hidden', { value: 42, enumerable: false })
+      Object.defineProperty(obj, 'double', { get() { return this.a * 2 }, enumerable: true })
+
+      const result = update(obj, { a: 3 })
+
+      expect(result[secret]).toBe('shh')
+      expect(result.hidden).toBe(42)
+      expect(result.double).toBe(6)
+    })
+
+    it('can update a frozen Object', () => {
+      const obj = Object.freeze({ a: Object.freeze({ b: 1 }) })
+      const result = deepUpdate(obj).at('a').at('b').set(2)
+
+      expect(result).toEqual({ a: { b: 2 } })
+    })
+
+    it('can clone class instances as plain Objects', () => {
+      configure({ plainObjects: true })
+
+      try {
+        const state = { account: new Account('John', 10) }
+        const result = deepUpdate(state).at('account').at('owner').set('Jane')
+
+        expect(result.account instanceof Account).toBe(false)
+        expect(result.account).toEqual({ owner: 'Jane', balance: 10 })
+      }
+      finally {
+        configure({ plainObjects: false })
+      }
+    })
+
+  })
+
+
+  describe('Custom containers', () => {
+
+    it('can update a path containing a registered container', () => {
+      const obj = {
+        a: new Box({ b: { c: 1 }, d: {} })
+      }
+
+      const result = deepUpdate(obj)
+        .at('a')
+        .abortIfUndef()
+        .at('b')
+        .at('c')
+        .set(10)
+
+      expect(result.a).toBeA(Box)
+      expect(result.a).toNotBe(obj.a)
+      expect(result.a.value).toEqual({ b: { c: 10 }, d: {} })
+      expect(result.a.value!.d).toBe(obj.a.value!.d)
+      expect(obj.a.value!.b.c).toBe(1)
+    })
+
+    it('can abort an update on an empty registered container', () => {
+      const obj = { a: new Box<{ b: number }>(undefined) }
+      const result = deepUpdate(obj).at('a').abortIfUndef().at('b').set(10)
+
+      expect(result).toBe(obj)
+    })
+
+    it('can update an empty registered container using withDefault()', () => {
+      const obj = { a: new Box<{ b: number, c: number }>(undefined) }
+      const result = deepUpdate(obj).at('a').withDefault({ b: 1, c: 2 }).at('b').set(10)
+
+      expect(result.a).toBeA(Box)
+      expect(result.a.value).toEqual({ b: 10, c: 2 })
+    })
+
+    it('can set and modify the content of a registered container', () => {
+      const obj = { a: new Box(1) }
+
+      const result = deepUpdate(obj).at('a').set(2)
+      const result2 = deepUpdate(obj).at('a').modify(n => n === undefined ? 0 : n + 10)
+
+      expect(result.a).toBeA(Box)
+      expect(result.a.value).toBe(2)
+      expect(result2.a.value).toBe(11)
+    })
+
+  })
+
+
+  describe('Patches', () => {
+
+    type Obj = {
+      a: { b: number, c?: string },
+      items: Array<{ id: number, done: boolean }>,
+      opt: Option<{ d: number }>,
+      nested?: { e: { f: number } }
+    }
+
+    const obj: Obj = {
+      a: { b: 1, c: 'c' },
+      items: [{ id: 1, done: false }, { id: 2, done: true }],
+      opt: Some({ d: 1 })
+    }
+
+    function recorder() {
+      const recorded = { patches: [] as Patch[], calls: 0 }
+      const onPatch = (patches: Patch[]) => {
+        recorded.calls++
+        recorded.patches = recorded.patches.concat(patches)
+      }
+      return { recorded, options: { onPatch } }
+    }
+
+    it('records the patches of a shallow update', () => {
+      const { recorded, options } = recorder()
+      update(obj.a, { b: 2, c: DELETE }, options)
+
+      expect(recorded.patches).toEqual([
+        { op: 'replace', path: '/b', value: 2 },
+        { op: 'remove', path: '/c' }
+      ])
+    })
+
+    it('records a replace operation', () => {
+      const { recorded, options } = recorder()
+      deepUpdate(obj, options).at('a').at('b').set(2)
+
+      expect(recorded.patches).toEqual([{ op: 'replace', path: '/a/b', value: 2 }])
+    })
+
+    it('records add and remove operations', () => {
+      const { recorded, options } = recorder()
+      const result = deepUpdate(obj, options).at('a').at('c').set(DELETE)
+      deepUpdate(result, options).at('a').at('c').set('cc')
+      deepUpdate(obj, options).at('items').at(2).set({ id: 3, done: false })
+
+      expect(recorded.patches).toEqual([
+        { op: 'remove', path: '/a/c' },
+        { op: 'add', path: '/a/c', value: 'cc' },
+        { op: 'add', path: '/items/2', value: { id: 3, done: false } }
+      ])
+    })
+
+    it('records a single add operation for a default value', () => {
+      const { recorded, options } = recorder()
+      deepUpdate(obj, options).at('nested').withDefault({ e: { f: 0 } }).at('e').at('f').set(1)
+
+      expect(recorded.patches).toEqual([{ op: 'add', path: '/nested', value: { e: { f: 1 } } }])
+    })
+
+    it('records the patches of multiple selections', () => {
+      const { recorded, options } = recorder()
+      deepUpdate(obj, options).at('items').each().at('done').set(true)
+
+      expect(recorded.patches).toEqual([{ op: 'replace', path: '/items/0/done', value: true }])
+    })
+
+    it('sees through Options', () => {
+      const { recorded, options } = recorder()
+      deepUpdate(obj, options).at('opt').abortIfUndef().at('d').set(2)
+      deepUpdate(obj, options).at('opt').set(undefined)
+
+      expect(recorded.patches).toEqual([
+        { op: 'replace', path: '/opt/d', value: 2 },
+        { op: 'remove', path: '/opt' }
+      ])
+    })
+
+    it('escapes the keys of the paths', () => {
+      const { recorded, options } = recorder()
+      deepUpdate({ 'a/b': { 'c~d': 1 } }, options).at('a/b').at('c~d').set(2)
+
+      expect(recorded.patches).toEqual([{ op: 'replace', path: '/a~1b/c~0d', value: 2 }])
+    })
+
+    it('records the patches of a whole batch at once', () => {
+      const { recorded, options } = recorder()
+
+      deepUpdate(obj, options).batch(u => {
+        u.at('a').at('b').set(2)
+        u.at('items').at(5).abortIfUndef().at('done').set(true)
+        u.at('items').removeAt(0)
+      })
+
+      expect(recorded.calls).toBe(1)
+      expect(recorded.patches).toEqual([
+        { op: 'replace', path: '/a/b', value: 2 },
+        { op: 'replace', path: '/items', value: [{ id: 2, done: true }] }
+      ])
+    })
+
+    it('records inverse patches', () => {
+      let inverse: Patch[] = []
+      const onPatch = (_: Patch[], inversePatches: Patch[]) => { inverse = inversePatches }
+
+      deepUpdate(obj, { onPatch }).batch(u => {
+        u.at('a').at('b').set(2)
+        u.at('a').at('c').set(DELETE)
+        u.at('nested').withDefault({ e: { f: 0 } }).at('e').at('f').set(1)
+      })
+
+      expect(inverse).toEqual([
+        { op: 'remove', path: '/nested' },
+        { op: 'add', path: '/a/c', value: 'c' },
+        { op: 'replace', path: '/a/b', value: 1 }
+      ])
+    })
+
+    it('can apply patches and inverse patches', () => {
+      let patches: Patch[] = []
+      let inversePatches: Patch[] = []
+      const onPatch = (p: Patch[], i: Patch[]) => { patches = p; inversePatches = i }
+
+      const result = deepUpdate(obj, { onPatch }).batch(u => {
+        u.at('a').at('c').set(DELETE)
+        u.at('items').at(0).abortIfUndef().at('done').set(true)
+        u.at('items').push({ id: 3, done: false })
+        u.at('opt').set(undefined)
+        u.at('nested').withDefault({ e: { f: 0 } }).at('e').at('f').set(1)
+      })
+
+      const patched = applyPatches(obj, patches)
+      expect(patched).toEqual(result)
+      expect(patched.opt).toBe(None)
+      expect(obj.items[0].done).toBe(false)
+
+      const reverted = applyPatches(result, inversePatches)
+      expect(reverted).toEqual(obj)
+      expect(reverted.opt.get()).toEqual({ d: 1 })
+      expect(reverted.items[1]).toBe(obj.items[1])
+    })
+
+    it('records an add operation for each index skipped by a new item', () => {
+      let patches: Patch[] = []
+      let inversePatches: Patch[] = []
+      const onPatch = (p: Patch[], i: Patch[]) => { patches = p; inversePatches = i }
+      const target = { a: [1] }
+
+      const result = deepUpdate(target, { onPatch }).at('a').at(3).set(5)
+
+      expect(patches).toEqual([
+        { op: 'add', path: '/a/1', value: null },
+        { op: 'add', path: '/a/2', value: null },
+        { op: 'add', path: '/a/3', value: 5 }
+      ])
+      expect(applyPatches(target, patches)).toEqual({ a: [1, null, null, 5] })
+      expect(applyPatches(result, inversePatches)).toEqual(target)
+    })
+
+    it('applies patches with structural sharing', () => {
+      const result = applyPatches(obj, [
+        { op: 'replace', path: '/a/b', value: 2 },
+        { op: 'add', path: '/a/d', value: 3 },
+        { op: 'add', path: '/items/0', value: { id: 0, done: false } },
+        { op: 'remove', path: '/items/2' }
+      ])
+
+      expect(result).toEqual({
+        a: { b: 2, c: 'c', d: 3 },
+        items: [{ id: 0, done: false }, { id: 1, done: false }],
+        opt: obj.opt
+      })
+      expect(result.items[1]).toBe(obj.items[0])
+      expect(result.opt).toBe(obj.opt)
+
+      expect(applyPatches(obj, [{ op: 'replace', path: '/a/b', value: 1 }])).toBe(obj)
+      expect(applyPatches(obj, [])).toBe(obj)
+    })
+
+    it('can apply move and copy operations', () => {
+      const result = applyPatch(obj, [
+        { op: 'move', from: '/a/c', path: '/a/e' },
+        { op: 'copy', from: '/items/1', path: '/items/-' },
+        { op: 'move', from: '/items/0', path: '/items/1' }
+      ])
+
+      expect(result).toEqual({
+        a: { b: 1, e: 'c' },
+        items: [{ id: 2, done: true }, { id: 1, done: false }, { id: 2, done: true }],
+        opt: obj.opt
+      })
+      expect(result.items[2]).toBe(obj.items[1])
+      expect(obj.a).toEqual({ b: 1, c: 'c' })
+    })
+
+    it('can apply test operations', () => {
+      const result = applyPatch(obj, [
+        { op: 'test', path: '/items/0', value: { id: 1, done: false } },
+        { op: 'test', path: '/opt/d', value: 1 },
+        { op: 'replace', path: '/a/b', value: 2 }
+      ])
+
+      expect(result.a.b).toBe(2)
+    })
+
+    it('aborts the whole patch if a test operation fails', () => {
+      const result = applyPatch(obj, [
+        { op: 'replace', path: '/a/b', value: 2 },
+        { op: 'remove', path: '/items/0' },
+        { op: 'test', path: '/items/0/id', value: 1 }
+      ])
+
+      expect(result).toBe(obj)
+      expect(obj.a.b).toBe(1)
+      expect(obj.items.length).toBe(2)
+    })
+
+    it('throws when an operation refers to a missing path', () => {
+      expect(() => applyPatch(obj, [{ op: 'replace', path: '/a/z', value: 1 }])).toThrow(/doesn't exist/)
+      expect(() => applyPatch(obj, [{ op: 'add', path: '/z/a', value: 1 }])).toThrow(/parent doesn't exist/)
+      expect(() => applyPatch(obj, [{ op: 'add', path: '/items/3', value: 1 }])).toThrow(/invalid Array index/)
+      expect(() => applyPatch(obj, [{ op: 'copy', from: '/items/2', path: '/a/z' }])).toThrow(/doesn't exist/)
+    })
+
+    it('does not record anything when the original object is returned', () => {
+      const { recorded, options } = recorder()
+
+      update(obj.a, { b: 1 }, options)
+      deepUpdate(obj, options).at('a').at('b').set(1)
+      deepUpdate(obj, options).at('nested').abortIfUndef().at('e').at('f').set(1)
+      deepUpdate(obj, options).batch(u => u.at('a').at('c').set('c'))
+
+      expect(recorded.calls).toBe(0)
+    })
+
+  })
+
+  describe('String paths', () => {
+
+    type User = {
+      prefs: { otherData: { nestedData: number }, theme?: string },
+      friends: Array<{ name: string }>,
+      address?: { city: string },
+      nickname: Option<{ value: string }>,
+      'a/b': number
+    }
+
+    const user: User = {
+      prefs: { otherData: { nestedData: 1 } },
+      friends: [{ name: 'Jess' }, { name: 'Alex' }, { name: 'Ricky' }],
+      nickname: Some({ value: 'jo' }),
+      'a/b': 1
+    }
+
+    it('can set a value using a dotted path', () => {
+      const result = setIn(user, 'prefs.otherData.nestedData', 2)
+
+      expect(result.prefs.otherData.nestedData).toBe(2)
+      expect(result.friends).toBe(user.friends)
+      expect(user.prefs.otherData.nestedData).toBe(1)
+
+      const result2 = setIn(user, 'friends.1.name', 'Sam')
+      expect(result2.friends.map(f => f.name)).toEqual(['Jess', 'Sam', 'Ricky'])
+    })
+
+    it('can set a value using a JSON pointer', () => {
+      const result = setIn(user, '/friends/2', { name: 'Sam' })
+      expect(result.friends.map(f => f.name)).toEqual(['Jess', 'Alex', 'Sam'])
+
+      const result2 = setIn(user, '/a~1b', 2)
+      expect(result2['a/b']).toBe(2)
+    })
+
+    it('sees through Options', () => {
+      const result = setIn(user, 'nickname.value', 'joe')
+
+      expect(result.nickname.get()).toEqual({ value: 'joe' })
+      expect(user.nickname.get()).toEqual({ value: 'jo' })
+    })
+
+    it('can append an Array item', () => {
+      const result = setIn(user, '/friends/-', { name: 'Sam' })
+      expect(result.friends.map(f => f.name)).toEqual(['Jess', 'Alex', 'Ricky', 'Sam'])
+
+      const result2 = setIn(user, 'friends.-.name', 'Sam')
+      expect(result2).toBe(user)
+    })
+
+    it('throws on a segment of an Array that is not an index', () => {
+      const path: string = 'friends.x'
+
+      expect(() => setIn(user, path, { name: 'Sam' })).toThrow(/Invalid Array index/)
+      expect(() => modifyIn(user, '/friends/01/name' as string, name => name)).toThrow(/Invalid Array index/)
+    })
+
+    it('aborts the update if a parent is missing', () => {
+      expect(setIn(user, 'address.city', 'Paris')).toBe(user)
+      expect(setIn(user, 'friends.5.name', 'Sam')).toBe(user)
+    })
+
+    it('returns the original object on a no-op update', () => {
+      expect(setIn(user, 'prefs.otherData.nestedData', 1)).toBe(user)
+    })
+
+    it('can modify a value', () => {
+      const result = modifyIn(user, '/prefs/otherData/nestedData', n => n + 10)
+      expect(result.prefs.otherData.nestedData).toBe(11)
+    })
+
+    it('can delete an Object key', () => {
+      const withTheme = setIn(user, 'prefs.theme', 'dark')
+      const result = deleteIn(withTheme, 'prefs.theme')
+
+      expect('theme' in result.prefs).toBe(false)
+      expect(deleteIn(user, 'prefs.theme')).toBe(user)
+      expect(deleteIn(user, 'address.city')).toBe(user)
+    })
+
+    it('can remove an Array item', () => {
+      const result = deleteIn(user, '/friends/1')
+
+      expect(result.friends.map(f => f.name)).toEqual(['Jess', 'Ricky'])
+      expect(deleteIn(user, '/friends/3')).toBe(user)
+    })
+
+    it('accepts paths only known at runtime', () => {
+      const path: string = 'prefs.otherData.nestedData'
+      const result = setIn(user, path, 3)
+
+      expect(result.prefs.otherData.nestedData).toBe(3)
+    })
+
+    it('can record patches', () => {
+      let recorded: Patch[] = []
+      const options = { onPatch: (patches: Patch[]) => { recorded = patches } }
+
+      setIn(user, 'friends.0.name', 'Sam', options)
+      expect(recorded).toEqual([{ op: 'replace', path: '/friends/0/name', value: 'Sam' }])
+    })
+
+  })
+
+  describe('Key paths', () => {
+
+    const tree = {
+      nodes: [
+        { label: 'root', children: [{ label: 'child', children: [] as any[] }] }
+      ],
+      selection: new Map([[1, { expanded: false }]]),
+      meta: Some({ version: 1 })
+    }
+
+    it('selects the same value as the equivalent chain of at() calls', () => {
+      const result = deepUpdate(tree)
+        .path(['nodes', 0])
+        .abortIfUndef()
+        .path(['children', 0])
+        .abortIfUndef()
+        .path(['label'])
+        .set('leaf')
+
+      const expected = deepUpdate(tree)
+        .at('nodes')
+        .at(0)
+        .abortIfUndef()
+        .at('children')
+        .at(0)
+        .abortIfUndef()
+        .at('label')
+        .set('leaf')
+
+      expect(result).toEqual(expected)
+      expect(result.nodes[0].children[0].label).toBe('leaf')
+      expect(result.selection).toBe(tree.selection)
+      expect(tree.nodes[0].children[0].label).toBe('child')
+    })
+
+    it('can select a Map value', () => {
+      const result = deepUpdate(tree).path(['selection', 1]).abortIfUndef().at('expanded').set(true)
+
+      expect(result.selection.get(1)).toEqual({ expanded: true })
+      expect(tree.selection.get(1)).toEqual({ expanded: false })
+    })
+
+    it('sees through Options', () => {
+      const result = deepUpdate(tree).path(['meta']).abortIfUndef().path(['version']).set(2)
+      expect(result.meta.get()).toEqual({ version: 2 })
+    })
+
+    it('selects the current value with an empty path', () => {
+      const result = deepUpdate(tree).at('meta').path([]).set(undefined)
+      expect(result.meta.isDefined()).toBe(false)
+    })
+
+    it('can be used from a batch', () => {
+      const result = deepUpdate(tree).batch(u => {
+        u.path(['nodes', 0]).abortIfUndef().path(['label']).set('top')
+        u.path(['meta']).abortIfUndef().path(['version']).modify(v => v + 1)
+      })
+
+      expect(result.nodes[0].label).toBe('top')
+      expect(result.meta.get()).toEqual({ version: 2 })
+    })
+
+  })
+
+  describe('Read accessors', () => {
+
+    const obj = {
+      a: { b: 1 },
+      items: [{ id: 1, name: 'one' }, { id: 2, name: 'two' }],
+      opt: Some({ c: 'c' }),
+      none: makeNone<{ c: string }>(),
+      nullable: undefined as { d: number } | undefined
+    }
+
+    it('can get the value at the selected path', () => {
+      expect(deepUpdate(obj).get()).toBe(obj)
+      expect(deepUpdate(obj).at('a').at('b').get()).toBe(1)
+      expect(deepUpdate(obj).at('items').at(1).get()).toBe(obj.items[1])
+      expect(deepUpdate(obj).at('items').at(5).get()).toBe(undefined)
+      expect(deepUpdate(obj).at('items').findBy('id', 2).at('name').get()).toBe('two')
+      expect(deepUpdate(obj).at('items').findBy('id', 3).at('name').get()).toBe(undefined)
+      expect(deepUpdate(obj).at('nullable').abortIfUndef().at('d').get()).toBe(undefined)
+      expect(deepUpdate(obj).at('nullable').withDefault({ d: 10 }).at('d').get()).toBe(10)
+      expect(deepUpdate(obj).at('items').each().at('name').get()).toBe('one')
+      expect(deepUpdate(obj).at('items').filter(item => item.id > 1).at('name').get()).toBe('two')
+    })
+
+    it('sees through Options', () => {
+      expect(deepUpdate(obj).at('opt').get()).toEqual({ c: 'c' })
+      expect(deepUpdate(obj).at('opt').abortIfUndef().at('c').get()).toBe('c')
+      expect(deepUpdate(obj).at('none').get()).toBe(undefined)
+      expect(deepUpdate(obj).at('none').abortIfUndef().at('c').get()).toBe(undefined)
+    })
+
+    it('can get the value at the selected path or a default value', () => {
+      expect(deepUpdate(obj).at('a').at('b').getOr(10)).toBe(1)
+      expect(deepUpdate(obj).at('nullable').getOr({ d: 10 })).toEqual({ d: 10 })
+      expect(deepUpdate(obj).at('none').getOr({ c: 'd' })).toEqual({ c: 'd' })
+    })
+
+    it('can tell whether the selected path exists', () => {
+      expect(deepUpdate(obj).at('a').at('b').exists()).toBe(true)
+      expect(deepUpdate(obj).at('items').at(5).exists()).toBe(false)
+      expect(deepUpdate(obj).at('nullable').exists()).toBe(false)
+      expect(deepUpdate(obj).at('opt').exists()).toBe(true)
+      expect(deepUpdate(obj).at('none').exists()).toBe(false)
+      expect(deepUpdate(obj).at('items').filter(item => item.id > 2).exists()).toBe(false)
+    })
+
+    it('reads the current value of a batch', () => {
+      deepUpdate(obj).batch(u => {
+        u.at('a').at('b').set(2)
+        expect(u.at('a').at('b').get()).toBe(2)
+      })
+    })
+
+  })
+
+  describe('Lenses', () => {
+
+    interface Person {
+      name: string
+      prefs?: { timezone: number, theme?: string }
+      friends: Array<{ id: number, name: string }>
+      nickname: Option<string>
+    }
+
+    const alice: Person = {
+      name: 'Alice',
+      prefs: { timezone: 1 },
+      friends: [{ id: 1, name: 'Bob' }],
+      nickname: Some('Al')
+    }
+
+    const bob: Person = {
+      name: 'Bob',
+      friends: [],
+      nickname: makeNone<string>()
+    }
+
+    const timezone = lens<Person>().at('prefs').withDefault({ timezone: 0 }).at('timezone')
+
+    it('can be applied to many targets', () => {
+      expect(timezone.get(alice)).toBe(1)
+      expect(timezone.get(bob)).toBe(0)
+
+      const newAlice = timezone.set(alice, 2)
+      const newBob = timezone.modify(bob, tz => tz + 3)
+
+      expect(newAlice.prefs).toEqual({ timezone: 2 })
+      expect(newBob.prefs).toEqual({ timezone: 3 })
+      expect(alice.prefs).toEqual({ timezone: 1 })
+      expect(bob.prefs).toBe(undefined)
+    })
+
+    it('returns the original target on a no-op update', () => {
+      expect(timezone.set(alice, 1)).toBe(alice)
+    })
+
+    it('has the same abortIfUndef and Option semantics as deepUpdate', () => {
+      const theme = lens<Person>().at('prefs').abortIfUndef().at('theme')
+
+      expect(theme.get(bob)).toBe(undefined)
+      expect(theme.set(bob, 'dark')).toBe(bob)
+      expect(theme.set(alice, 'dark').prefs).toEqual({ timezone: 1, theme: 'dark' })
+
+      const nickname = lens<Person>().at('nickname')
+
+      expect(nickname.get(alice)).toBe('Al')
+      expect(nickname.get(bob)).toBe(undefined)
+      expect(nickname.set(bob, 'Bobby').nickname.get()).toBe('Bobby')
+    })
+
+    it('can select Array items', () => {
+      const friendName = (id: number) => lens<Person>().at('friends').findBy('id', id).at('name')
+
+      expect(friendName(1).get(alice)).toBe('Bob')
+      expect(friendName(1).set(alice, 'Robert').friends).toEqual([{ id: 1, name: 'Robert' }])
+      expect(friendName(2).set(alice, 'Robert')).toBe(alice)
+    })
+
+    it('can be composed', () => {
+      const prefs = lens<Person>().at('prefs').abortIfUndef()
+      const tz = lens<{ timezone: number }>().at('timezone')
+      const composed = prefs.compose(tz)
+
+      expect(composed.get(alice)).toBe(1)
+      expect(composed.set(alice, 5).prefs).toEqual({ timezone: 5 })
+      expect(composed.set(bob, 5)).toBe(bob)
+
+      // The composed lenses are left untouched
+      expect(prefs.get(alice)).toBe(alice.prefs)
+      expect(tz.get({ timezone: 3 })).toBe(3)
+    })
+
+    it('returns a function performing the operations of the selected container', () => {
+      const friends = lens<Person>().at('friends')
+      const addFriend = friends.push({ id: 2, name: 'Carl' })
+
+      expect(addFriend(alice).friends).toEqual([{ id: 1, name: 'Bob' }, { id: 2, name: 'Carl' }])
+      expect(addFriend(bob).friends).toEqual([{ id: 2, name: 'Carl' }])
+      expect(friends.splice(0)(alice).friends).toEqual([])
+      expect(lens<Person>().at('prefs').withDefault({ timezone: 0 }).assign({ theme: 'dark' })(bob).prefs).toEqual({ timezone: 0, theme: 'dark' })
+
+      const tags = lens<{ tags: Set<string> }>().at('tags')
+      const tagged = tags.add('a', 'b')({ tags: new Set(['c']) })
+
+      expect(tagged.tags.size).toBe(3)
+      expect(tags.delete('a', 'c')(tagged).tags.size).toBe(1)
+    })
+
+  })
+
+  describe('modifyAsync', () => {
+
+    const obj = {
+      a: { b: 1 },
+      items: [{ id: 1, n: 1 }, { id: 2, n: 2 }],
+      opt: Some({ c: 'c' })
+    }
+
+    const delay = <T>(value: T) => new Promise<T>(resolve => setTimeout(() => resolve(value), 1))
+
+    it('can modify a value asynchronously', () => {
+      return deepUpdate(obj).at('a').at('b').modifyAsync(b => delay(b + 1)).then(result => {
+        expect(result.a.b).toBe(2)
+        expect(result.items).toBe(obj.items)
+        expect(obj.a.b).toBe(1)
+      })
+    })
+
+    it('returns the original object if the resolved value is identical', () => {
+      return deepUpdate(obj).at('a').at('b').modifyAsync(b => delay(b)).then(result => {
+        expect(result).toBe(obj)
+      })
+    })
+
+    it('does not call the modifier if the update is aborted', () => {
+      let calls = 0
+      const modifier = (n: number) => {
+        calls++
+        return delay(n)
+      }
+
+      return deepUpdate(obj).at('items').findBy('id', 3).at('n').modifyAsync(modifier).then(result => {
+        expect(result).toBe(obj)
+        expect(calls).toBe(0)
+      })
+    })
+
+    it('modifies every selected value', () => {
+      return deepUpdate(obj).at('items').each().at('n').modifyAsync(n => delay(n * 10)).then(result => {
+        expect(result.items).toEqual([{ id: 1, n: 10 }, { id: 2, n: 20 }])
+      })
+    })
+
+    it('sees through Options', () => {
+      return deepUpdate(obj).at('opt').modifyAsync(opt => delay({ c: opt!.c + 'd' })).then(result => {
+        expect(result.opt.get()).toEqual({ c: 'cd' })
+      })
+    })
+
+    it('checks the predicates only once', () => {
+      let calls = 0
+      const isSecond = (item: { id: number }) => {
+        calls++
+        return item.id === 2
+      }
+
+      return deepUpdate(obj).at('items').find(isSecond).at('n').modifyAsync(n => delay(n * 10)).then(result => {
+        expect(result.items).toEqual([{ id: 1, n: 1 }, { id: 2, n: 20 }])
+        expect(calls).toBe(2)
+      })
+    })
+
+    it('updates the values at the paths selected before awaiting', () => {
+      const isOdd = (n: number) => n % 2 === 1
+
+      return deepUpdate(obj).at('items').each().at('n').when(isOdd).modifyAsync(n => delay(n * 10)).then(result => {
+        expect(result.items).toEqual([{ id: 1, n: 10 }, { id: 2, n: 2 }])
+      })
+    })
+
+    it('calls the otherwise modifier once, after the modifier resolved', () => {
+      const calls: string[] = []
+      const isOdd = (n: number) => n % 2 === 1
+      const negate = (n: number) => {
+        calls.push('otherwise')
+        return -n
+      }
+      const times10 = (n: number) => {
+        calls.push('modifier')
+        return delay(n * 10)
+      }
+
+      return deepUpdate(obj).at('items').each().at('n').when(isOdd).otherwise(negate).modifyAsync(times10).then(result => {
+        expect(result.items).toEqual([{ id: 1, n: 10 }, { id: 2, n: -2 }])
+        expect(calls).toEqual(['modifier', 'otherwise'])
+      })
+    })
+
+    it('keeps the default values', () => {
+      const withMissing: { a?: { b: number } } = {}
+
+      return deepUpdate(withMissing).at('a').withDefault({ b: 1 }).at('b').modifyAsync(b => delay(b + 1)).then(result => {
+        expect(result.a).toEqual({ b: 2 })
+      })
+    })
+
+  })
+
+  describe('merge3', () => {
+
+    const base = {
+      title: 'doc',
+      meta: { author: 'alice', tags: ['a'] },
+      sections: [{ text: 'one' }, { text: 'two' }],
+      cover: Some({ url: 'a.png', width: 10 }),
+      stats: new Map([['views', 1]]),
+      notes: { draft: 'x' } as Record<string, string>
+    }
+
+    it('returns the other side when only one side changed', () => {
+      const ours = deepUpdate(base).at('title').set('new doc')
+
+      expect(merge3(base, ours, base)).toBe(ours)
+      expect(merge3(base, base, ours)).toBe(ours)
+      expect(merge3(base, ours, ours)).toBe(ours)
+    })
+
+    it('merges changes made to different keys by both sides', () => {
+      const ours = deepUpdate(base).at('meta').at('author').set('bob')
+      const theirs = deepUpdate(base).at('title').set('new doc')
+
+      const result = merge3(base, ours, theirs)
+
+      expect(result.title).toBe('new doc')
+      expect(result.meta).toBe(ours.meta)
+      expect(result.sections).toBe(base.sections)
+      expect(base.title).toBe('doc')
+      expect(ours.title).toBe('doc')
+    })
+
+    it('merges Arrays item by item if their length did not change', () => {
+      const ours = deepUpdate(base).at('sections').at(0).abortIfUndef().at('text').set('ONE')
+      const theirs = deepUpdate(base).at('sections').at(1).abortIfUndef().at('text').set('TWO')
+
+      expect(merge3(base, ours, theirs).sections).toEqual([{ text: 'ONE' }, { text: 'TWO' }])
+    })
+
+    it('merges the content of Options and Maps', () => {
+      const ours = deepUpdate(base).batch(u => {
+        u.at('cover').abortIfUndef().at('url').set('b.png')
+        u.at('stats').at('views').set(2)
+      })
+      const theirs = deepUpdate(base).batch(u => {
+        u.at('cover').abortIfUndef().at('width').set(20)
+        u.at('stats').at('likes').set(1)
+      })
+
+      const result = merge3(base, ours, theirs)
+
+      expect(result.cover.get()).toEqual({ url: 'b.png', width: 20 })
+      expect(Array.from(result.stats.entries())).toEqual([['views', 2], ['likes', 1]])
+    })
+
+    it('keeps deletions and additions', () => {
+      const ours = deepUpdate(base).at('notes').remove('draft')
+      const theirs = deepUpdate(base).at('notes').at('final').set('y')
+
+      expect(merge3(base, ours, theirs).notes).toEqual({ final: 'y' })
+    })
+
+    it('reports conflicts and keeps our value by default', () => {
+      const ours = deepUpdate(base).batch(u => {
+        u.at('meta').at('author').set('bob')
+        u.at('sections').push({ text: 'three' })
+      })
+      const theirs = deepUpdate(base).batch(u => {
+        u.at('meta').at('author').set('carol')
+        u.at('sections').removeAt(0)
+      })
+
+      const conflicts: MergeConflict[] = []
+      const result = merge3(base, ours, theirs, { onConflict: conflict => {
+        conflicts.push(conflict)
+        return conflict.ours
+      }})
+
+      expect(conflicts.map(c => c.path)).toEqual([['meta', 'author'], ['sections']])
+      expect(conflicts[0]).toEqual({ path: ['meta', 'author'], base: 'alice', ours: 'bob', theirs: 'carol' })
+      expect(result.meta.author).toBe('bob')
+      expect(result.sections).toBe(ours.sections)
+
+      expect(merge3(base, ours, theirs).meta.author).toBe('bob')
+    })
+
+    it('can resolve a conflict with a deletion', () => {
+      const ours = deepUpdate(base).at('notes').remove('draft')
+      const theirs = deepUpdate(base).at('notes').at('draft').set('z')
+
+      const result = merge3(base, ours, theirs, { onConflict: conflict => {
+        expect(conflict.ours).toBe(DELETE)
+        return conflict.theirs
+      }})
+
+      expect(result.notes).toEqual({ draft: 'z' })
+      expect(merge3(base, theirs, ours, { onConflict: () => DELETE }).notes).toEqual({})
+    })
+
+  })
+
+  describe('diff', () => {
+
+    const prev = {
+      title: 'doc',
+      meta: { author: 'alice', tags: ['a', 'b'] },
+      cover: Some({ url: 'a.png' }),
+      subtitle: makeNone<string>(),
+      users: [{ id: 1, name: 'alice' }, { id: 2, name: 'bob' }, { id: 3, name: 'carol' }],
+      stats: new Map([['views', 1]])
+    }
+
+    it('does not find any change between the same states', () => {
+      expect(diff(prev, prev)).toEqual([])
+      expect(diff(prev, deepUpdate(prev).at('title').set('doc'))).toEqual([])
+    })
+
+    it('lists the changed paths with their old and new values', () => {
+      const next = deepUpdate(prev).batch(u => {
+        u.at('title').set('new doc')
+        u.at('meta').at('tags').push('c')
+        u.at('stats').at('views').set(2)
+      })
+
+      expect(diff(prev, next)).toEqual([
+        { op: 'replace', path: ['title'], oldValue: 'doc', newValue: 'new doc' },
+        { op: 'add', path: ['meta', 'tags', 2], oldValue: undefined, newValue: 'c' },
+        { op: 'replace', path: ['stats', 'views'], oldValue: 1, newValue: 2 }
+      ])
+    })
+
+    it('does not walk the subtrees that kept their identity', () => {
+      const walked: string[] = []
+      const meta = Object.defineProperty({}, 'author', { get: () => { walked.push('author'); return 'alice' }, enumerable: true })
+      const state = { meta, title: 'a' }
+
+      diff(state, update(state, { title: 'b' }))
+      expect(walked).toEqual([])
+    })
+
+    it('understands Option transitions', () => {
+      const next = deepUpdate(prev).batch(u => {
+        u.at('cover').set(undefined)
+        u.at('subtitle').set('sub')
+      })
+
+      expect(diff(prev, next)).toEqual([
+        { op: 'remove', path: ['cover'], oldValue: { url: 'a.png' }, newValue: undefined },
+        { op: 'add', path: ['subtitle'], oldValue: undefined, newValue: 'sub' }
+      ])
+
+      const next2 = deepUpdate(prev).at('cover').abortIfUndef().at('url').set('b.png')
+      expect(diff(prev, next2)).toEqual([
+        { op: 'replace', path: ['cover', 'url'], oldValue: 'a.png', newValue: 'b.png' }
+      ])
+    })
+
+    it('compares Arrays by index', () => {
+      const next = deepUpdate(prev).at('users').removeAt(0)
+
+      expect(diff(prev, next).map(c => [c.op, c.path.join('.')])).toEqual([
+        ['replace', 'users.0.id'],
+        ['replace', 'users.0.name'],
+        ['replace', 'users.1.id'],
+        ['replace', 'users.1.name'],
+        ['remove', 'users.2']
+      ])
+    })
+
+    it('can compare Arrays of entities by key', () => {
+      const next = deepUpdate(prev).batch(u => {
+        u.at('users').removeAt(0)
+        u.at('users').findBy('id', 3).at('name').set('caroline')
+        u.at('users').insertAt(1, { id: 4, name: 'dan' })
+      })
+
+      expect(diff(prev, next, { arrayKey: 'id' })).toEqual([
+        { op: 'remove', path: ['users', 0], oldValue: { id: 1, name: 'alice' }, newValue: undefined },
+        { op: 'add', path: ['users', 1], oldValue: undefined, newValue: { id: 4, name: 'dan' } },
+        { op: 'replace', path: ['users', 2, 'name'], oldValue: 'carol', newValue: 'caroline' }
+      ])
+
+      const reordered = deepUpdate(prev).at('users').move(0, 2)
+      expect(diff(prev, reordered, { arrayKey: user => user.id })).toEqual([
+        { op: 'replace', path: ['users'], oldValue: prev.users, newValue: reordered.users }
+      ])
+    })
+
+    it('can be exported as a JSON Patch that turns the previous state into the next one', () => {
+      const next = deepUpdate(prev).batch(u => {
+        u.at('users').removeAt(0)
+        u.at('users').push({ id: 4, name: 'dan' }, { id: 5, name: 'eve' })
+        u.at('meta').at('tags').splice(0)
+        u.at('cover').set(undefined)
+      })
+
+      const byIndex = toJsonPatch(diff(prev, next))
+      const byKey = toJsonPatch(diff(prev, next, { arrayKey: 'id' }))
+
+      expect(byKey).toEqual([
+        { op: 'remove', path: '/meta/tags/1' },
+        { op: 'remove', path: '/meta/tags/0' },
+        { op: 'remove', path: '/cover' },
+        { op: 'remove', path: '/users/0' },
+        { op: 'add', path: '/users/2', value: { id: 4, name: 'dan' } },
+        { op: 'add', path: '/users/3', value: { id: 5, name: 'eve' } }
+      ])
+
+      expect(applyPatch(prev, byIndex)).toEqual(next)
+      expect(applyPatch(prev, byKey)).toEqual(next)
+    })
+
+  })
+
+  describe('Freezing', () => {
+
+    const isFrozen = Object.isFrozen
+
+    const makeState = () => ({
+      a: { b: { c: 1 }, d: { e: 1 } },
+      items: [{ id: 1 }, { id: 2 }],
+      opt: Some({ f: 1 })
+    })
+
+    beforeEach(() => configure({ freeze: true }))
+    afterEach(() => configure({ freeze: false }))
+
+    it('freezes the containers created by update', () => {
+      const state = makeState()
+      const result = update(state, { items: [] })
+
+      expect(isFrozen(result)).toBe(true)
+      expect(isFrozen(result.items)).toBe(false)
+      expect(isFrozen(state)).toBe(false)
+    })
+
+    it('freezes the containers cloned along the updated path, but not the untouched ones', () => {
+      const state = makeState()
+      const result = deepUpdate(state).at('a').at('b').at('c').set(2)
+
+      expect(isFrozen(result)).toBe(true)
+      expect(isFrozen(result.a)).toBe(true)
+      expect(isFrozen(result.a.b)).toBe(true)
+      expect(isFrozen(result.a.d)).toBe(false)
+      expect(isFrozen(state.a)).toBe(false)
+      expect(() => { (result.a.b as any).c = 3 }).toThrow()
+    })
+
+    it('freezes the containers created by Array and Object operations', () => {
+      const state = makeState()
+
+      expect(isFrozen(deepUpdate(state).at('items').push({ id: 3 }).items)).toBe(true)
+      expect(isFrozen(deepUpdate(state).at('a').assign({ b: { c: 2 } }).a)).toBe(true)
+      expect(isFrozen(deepUpdate(state).at('opt').abortIfUndef().at('f').set(2).opt.get())).toBe(true)
+    })
+
+    it('freezes the containers created by a batch once it is over', () => {
+      const state = makeState()
+      const result = deepUpdate(state).batch(u => {
+        u.at('a').at('b').at('c').set(2)
+        u.at('a').at('d').at('e').set(2)
+      })
+
+      expect(result.a.b.c).toBe(2)
+      expect(result.a.d.e).toBe(2)
+      expect(isFrozen(result)).toBe(true)
+      expect(isFrozen(result.a)).toBe(true)
+      expect(isFrozen(result.a.d)).toBe(true)
+    })
+
+    it('does not freeze the inserted values unless asked to', () => {
+      const state = makeState()
+      const inserted = { c: 10, g: { h: 1 } }
+
+      deepUpdate(state).at('a').at('b').set(inserted)
+      expect(isFrozen(inserted)).toBe(false)
+
+      configure({ freeze: 'deep' })
+
+      const result = deepUpdate(state).at('a').at('b').set(inserted)
+      expect(isFrozen(result.a.b)).toBe(true)
+      expect(isFrozen(inserted.g)).toBe(true)
+      expect(isFrozen(result.a.d)).toBe(false)
+
+      const item = { id: 3 }
+      update(state, { items: [item] })
+      expect(isFrozen(item)).toBe(true)
+    })
+
+  })
+
+  describe('Mutation detection', () => {
+
+    let mutations: string[] = []
+
+    beforeEach(() => {
+      mutations = []
+      configure({ detectMutations: path => mutations.push(path) })
+    })
+
+    afterEach(() => configure({ detectMutations: false }))
+
+    const makeState = () => ({
+      a: { b: { c: 1 } },
+      items: [{ id: 1 }],
+      tags: new Set(['x']),
+      opt: Some({ d: 1 })
+    })
+
+    it('reports the mutations of an object passed to a previous update', () => {
+      const state = makeState()
+      deepUpdate(state).at('items').push({ id: 2 })
+
+      state.a.b.c = 2
+      deepUpdate(state).at('a').at('b').at('c').set(3)
+
+      expect(mutations).toEqual(['/a/b/c'])
+    })
+
+    it('reports the mutations of an object returned by a previous update', () => {
+      const state = makeState()
+      const result = deepUpdate(state).at('items').push({ id: 2 })
+
+      result.items.push({ id: 3 })
+      delete (result.a as any).b
+      result.tags.add('y')
+      ;(result.opt.get() as any).d = 2
+
+      update(result, { items: [] })
+
+      expect(mutations).toEqual(['/a/b', '/items/2', '/tags/y', '/opt/d'])
+    })
+
+    it('reports each mutation once', () => {
+      const state = makeState()
+      update(state, {})
+
+      state.items[0].id = 2
+      update(state, {})
+      update(state, {})
+
+      expect(mutations).toEqual(['/items/0/id'])
+    })
+
+    it('does not report the in place updates of a batch', () => {
+      const state = makeState()
+
+      const result = deepUpdate(state).batch(u => {
+        u.at('a').at('b').at('c').set(2)
+        u.at('a').assign({ b: { c: 3 } })
+        u.at('a').at('b').at('c').set(4)
+      })
+
+      deepUpdate(result).at('a').at('b').at('c').set(5)
+      expect(mutations).toEqual([])
+    })
+
+    it('does not report anything unless enabled', () => {
+      configure({ detectMutations: false })
+
+      const state = makeState()
+      update(state, {})
+      state.a.b.c = 2
+      update(state, {})
+
+      expect(mutations).toEqual([])
+    })
+
+  })
+
+  describe('Equality', () => {
+
+    const makeState = () => ({
+      a: { b: [1, 2], c: { d: 1 } },
+      opt: Some({ e: [1] }),
+      date: new Date(0)
+    })
+
+    it('compares references by default', () => {
+      const state = makeState()
+
+      expect(deepUpdate(state).at('a').at('b').set([1, 2])).toNotBe(state)
+      expect(update(state.a, { b: [1, 2] })).toNotBe(state.a)
+    })
+
+    it('can keep the current value if the new one is shallowly equal', () => {
+      const state = makeState()
+      const options: UpdateOptions = { equality: 'shallow' }
+
+      expect(deepUpdate(state, options).at('a').at('b').set([1, 2])).toBe(state)
+      expect(deepUpdate(state, options).at('a').at('b').modify(b => b.slice())).toBe(state)
+      expect(deepUpdate(state, options).at('a').set({ b: state.a.b, c: state.a.c })).toBe(state)
+      expect(deepUpdate(state, options).at('a').set({ b: [1, 2], c: state.a.c })).toNotBe(state)
+      expect(deepUpdate(state, options).at('opt').set({ e: state.opt.get().e })).toBe(state)
+      expect(update(state.a, { b: [1, 2] }, options)).toBe(state.a)
+    })
+
+    it('can keep the current value if the new one is deeply equal', () => {
+      const state = makeState()
+      const options: UpdateOptions = { equality: 'deep' }
+
+      expect(deepUpdate(state, options).at('a').set({ b: [1, 2], c: { d: 1 } })).toBe(state)
+      expect(deepUpdate(state, options).at('opt').set({ e: [1] })).toBe(state)
+      expect(deepUpdate(state, options).at('date').set(new Date(0))).toBe(state)
+
+      const result = deepUpdate(state, options).batch(u => {
+        u.at('a').at('c').set({ d: 1 })
+        u.at('a').at('b').set([1, 3])
+      })
+
+      expect(result.a.c).toBe(state.a.c)
+      expect(result.a.b).toEqual([1, 3])
+    })
+
+    it('keeps the previous reference of every equal key of a shallow update', () => {
+      const state = makeState()
+      const result = update(state, { a: { b: [1, 2], c: { d: 1 } }, date: new Date(1) }, { equality: 'deep' })
+
+      expect(result).toNotBe(state)
+      expect(result.a).toBe(state.a)
+      expect(result.date.getTime()).toBe(1)
+    })
+
+    it('can use a custom comparator', () => {
+      const state = makeState()
+      const sameLength = (a: any, b: any) => Array.isArray(a) && Array.isArray(b) && a.length === b.length
+
+      expect(deepUpdate(state, { equality: sameLength }).at('a').at('b').set([3, 4])).toBe(state)
+    })
+
+    it('can be configured globally', () => {
+      configure({ equality: 'deep' })
+
+      try {
+        const state = makeState()
+        expect(deepUpdate(state).at('a').at('c').set({ d: 1 })).toBe(state)
+        expect(lens<typeof state>().at('a').at('b').set(state, [1, 2])).toBe(state)
+        expect(deepUpdate(state, { equality: 'reference' }).at('a').at('c').set({ d: 1 })).toNotBe(state)
+      }
+      finally {
+        configure({ equality: 'reference' })
+      }
+    })
+
+  })
+
+  describe('produce', () => {
+
+    const makeState = () => ({
+      a: { b: [1, 2], c: { d: 1 } },
+      e: { f: 1 },
+      opt: Some({ g: [1] }),
+      map: new Map([['k', { h: 1 }]]),
+      set: new Set([1, 2])
+    })
+
+    it('applies the mutations of the draft without touching the original', () => {
+      const state = makeState()
+
+      const result = produce(state, draft => {
+        draft.a.b.push(3)
+        draft.a.c.d = 2
+      })
+
+      expect(result.a.b).toEqual([1, 2, 3])
+      expect(result.a.c).toEqual({ d: 2 })
+      expect(state.a.b).toEqual([1, 2])
+      expect(state.a.c).toEqual({ d: 1 })
+      expect(result.e).toBe(state.e)
+      expect(result.opt).toBe(state.opt)
+      expect(result.map).toBe(state.map)
+    })
+
+    it('returns the original when nothing was written', () => {
+      const state = makeState()
+
+      expect(produce(state, draft => { draft.a.b.length })).toBe(state)
+      expect(produce(state, draft => { draft.a.c.d = 1 })).toBe(state)
+    })
+
+    it('reads the values written earlier in the recipe', () => {
+      const state = makeState()
+
+      const result = produce(state, draft => {
+        draft.a.b = [5]
+        draft.a.b.push(draft.a.b.length)
+        draft.e.f = draft.a.b[1] + 10
+      })
+
+      expect(result.a.b).toEqual([5, 1])
+      expect(result.e.f).toBe(11)
+    })
+
+    it('can delete keys', () => {
+      const state: { a: { b: number[], c?: { d: number } }, e?: { f: number } } = makeState()
+
+      const result = produce(state, draft => {
+        delete draft.a.c
+        draft.e = DELETE
+      })
+
+      expect('c' in result.a).toBe(false)
+      expect('e' in result).toBe(false)
+      expect(result.a.b).toBe(state.a.b)
+      expect('e' in state).toBe(true)
+    })
+
+    it('sees through Options', () => {
+      const state = makeState()
+      const none = { opt: makeNone<{ g: number[] }>() }
+
+      const result = produce(state, draft => { draft.opt!.g.push(2) })
+      const fromNone = produce(none, draft => {
+        expect(draft.opt).toBe(undefined)
+        draft.opt = { g: [3] }
+      })
+
+      expect(result.opt.get()).toEqual({ g: [1, 2] })
+      expect(state.opt.get()).toEqual({ g: [1] })
+      expect(fromNone.opt.get()).toEqual({ g: [3] })
+    })
+
+    it('can mutate Maps and Sets', () => {
+      const state = makeState()
+
+      const result = produce(state, draft => {
+        draft.map.get('k')!.h = 2
+        draft.map.set('l', { h: 3 })
+        draft.set.add(3)
+        draft.set.delete(1)
+      })
+
+      expect(result.map.get('k')).toEqual({ h: 2 })
+      expect(result.map.get('l')).toEqual({ h: 3 })
+      expect(result.set.has(1)).toBe(false)
+      expect(result.set.size).toBe(2)
+      expect(state.map.get('k')).toEqual({ h: 1 })
+      expect(state.map.size).toBe(1)
+      expect(state.set.size).toBe(2)
+    })
+
+    it('supports the Array methods', () => {
+      const state = { list: [3, 1, 2, 4] }
+
+      const result = produce(state, draft => {
+        draft.list.sort()
+        draft.list.splice(1, 1)
+        draft.list.reverse()
+      })
+
+      expect(result.list).toEqual([4, 3, 1])
+      expect(state.list).toEqual([3, 1, 2, 4])
+      expect(Array.isArray(result.list)).toBe(true)
+    })
+
+    it('stores the current value of the drafts assigned to other keys', () => {
+      const state = makeState()
+
+      const result = produce(state, draft => {
+        draft.e = draft.a.c as any
+        draft.a.b = [draft.a.c.d]
+      })
+
+      expect(result.e).toBe(state.a.c)
+      expect(result.a.b).toEqual([1])
+    })
+
+    it('stores a snapshot of drafts that were written earlier', () => {
+      const state: { a: { x: number }, b?: { x: number }, c?: { y: { x: number } } } = { a: { x: 0 } }
+
+      const result = produce(state, draft => {
+        draft.a.x = 1
+        draft.b = draft.a
+        draft.c = { y: draft.a }
+        draft.a.x = 2
+      })
+
+      expect(result).toEqual({ a: { x: 2 }, b: { x: 1 }, c: { y: { x: 1 } } })
+      expect(result.b).toNotBe(result.a)
+    })
+
+    it('reports the mutations as patches', () => {
+      const state = { list: [1, 2] }
+      let patches: Patch[] = []
+
+      const result = produce(state, draft => {
+        draft.list.push(3)
+        draft.list.push(4)
+      }, { onPatch: p => patches = p })
+
+      expect(result.list).toEqual([1, 2, 3, 4])
+      expect(patches).toEqual([
+        { op: 'add', path: '/list/2', value: 3 },
+        { op: 'add', path: '/list/3', value: 4 }
+      ])
+    })
+
+    it('records patches that can be applied and reverted when Arrays shrink or grow', () => {
+      const recipes: Array<(draft: { a: number[] }) => void> = [
+        draft => { draft.a.splice(0, 1) },
+        draft => { draft.a.pop() },
+        draft => { draft.a.shift() },
+        draft => { draft.a.length = 1 },
+        draft => { draft.a.length = 5 },
+        draft => { draft.a.splice(1, 1, 7, 8, 9) }
+      ]
+
+      recipes.forEach(recipe => {
+        const state = { a: [1, 2, 3] }
+        let patches: Patch[] = []
+        let inversePatches: Patch[] = []
+
+        const result = produce(state, recipe, { onPatch: (p, i) => { patches = p; inversePatches = i } })
+
+        expect(JSON.stringify(applyPatches(state, patches))).toBe(JSON.stringify(result))
+        expect(applyPatches(result, inversePatches)).toEqual(state)
+      })
+    })
+
+    it('forbids using a draft once produce returned', () => {
+      let leaked: { f: number } | undefined
+
+      produce(makeState(), draft => { leaked = draft.e })
+
+      expect(() => leaked!.f).toThrow(/produce/)
+    })
+
+  })
+
+  describe('Reducers', () => {
+
+    type State = { todos: Array<{ text: string, done: boolean }>, filter: string }
+
+    type TodoAction =
+      { type: 'add', text: string } |
+      { type: 'toggle', index: number } |
+      { type: 'filter', filter: string }
+
+    const initial: State = { todos: [], filter: 'all' }
+
+    const reducer = createReducer<State, TodoAction>(initial, {
+      add: (u, action) => u.at('todos').push({ text: action.text, done: false }),
+      toggle: (u, action) => u.at('todos').at(action.index).abortIfUndef().at('done').modify(done => !done),
+      filter: (u, action) => u.at('filter').set(action.filter)
+    })
+
+    it('starts from the initial state', () => {
+      const state = reducer(undefined, { type: 'filter', filter: 'all' })
+
+      expect(state).toBe(initial)
+    })
+
+    it('passes an updater rooted on the state to the handler of the action', () => {
+      const state = reducer(reducer(initial, { type: 'add', text: 'a' }), { type: 'toggle', index: 0 })
+
+      expect(state.todos).toEqual([{ text: 'a', done: true }])
+      expect(initial.todos).toEqual([])
+    })
+
+    it('returns the state as it is for unknown actions', () => {
+      const state = { todos: [], filter: 'done' }
+      const anyReducer = reducer as (state: State | undefined, action: { type: string }) => State
+
+      expect(anyReducer(state, { type: 'unknown' })).toBe(state)
+      expect(anyReducer(state, { type: 'toString' })).toBe(state)
+    })
+
+    it('combines updaters', () => {
+      const state = { a: 1, b: { c: 1 } }
+      const incrementA = (s: typeof state) => deepUpdate(s).at('a').modify(a => a + 1)
+      const setC = (c: number) => (s: typeof state) => deepUpdate(s).at('b').at('c').set(c)
+
+      const result = combineUpdaters(incrementA, setC(2))(state)
+
+      expect(result).toEqual({ a: 2, b: { c: 2 } })
+      expect(state).toEqual({ a: 1, b: { c: 1 } })
+    })
+
+    it('returns the original state if no combined updater changed anything', () => {
+      const state = { a: 1, b: { c: 1 } }
+      const setA = (a: number) => (s: typeof state) => deepUpdate(s).at('a').set(a)
+      const setC = (c: number) => (s: typeof state) => deepUpdate(s).at('b').at('c').set(c)
+
+      expect(combineUpdaters(setA(1), setC(1))(state)).toBe(state)
+      expect(combineUpdaters<typeof state>()(state)).toBe(state)
+    })
+
+  })
+
+  describe('Point-free updates', () => {
+
+    type Person = { name: string, prefs: { timezone: number }, friends: number[] }
+
+    const person: Person = { name: 'a', prefs: { timezone: 1 }, friends: [1, 2] }
+
+    const bumpTz = lens<Person>().at('prefs').at('timezone').modify(n => n + 1)
+    const rename = lens<Person>().at('name').set('b')
+    const addFriend = (id: number) => lens<Person>().at('friends').modify(friends => friends.concat(id))
+
+    it('can build updaters once from a lens', () => {
+      expect(bumpTz(person)).toEqual({ name: 'a', prefs: { timezone: 2 }, friends: [1, 2] })
+      expect(rename(person)).toEqual({ name: 'b', prefs: { timezone: 1 }, friends: [1, 2] })
+      expect(person.prefs.timezone).toBe(1)
+    })
+
+    it('can be used with Array.prototype.map', () => {
+      const people = [person, { ...person, prefs: { timezone: 5 } }]
+
+      expect(people.map(bumpTz).map(p => p.prefs.timezone)).toEqual([2, 6])
+    })
+
+    it('pipes a state through several updaters', () => {
+      const result = pipe(person, bumpTz, rename, addFriend(3))
+
+      expect(result).toEqual({ name: 'b', prefs: { timezone: 2 }, friends: [1, 2, 3] })
+      expect(result.friends).toNotBe(person.friends)
+    })
+
+    it('returns the original state if no piped updater changed anything', () => {
+      const keepTz = lens<Person>().at('prefs').at('timezone').set(1)
+
+      expect(pipe(person, keepTz, lens<Person>().at('name').set('a'))).toBe(person)
+      expect(pipe(person)).toBe(person)
+    })
+
+  })
+
+  describe('Conditional updates', () => {
+
+    type Item = { a: number, label?: string }
+
+    const makeState = () => ({
+      items: [{ a: 1 }, { a: 2 }, { a: 3 }] as Item[],
+      tz: 14,
+      opt: Some({ a: 1 })
+    })
+
+    it('leaves the values not verifying the predicate as they are, without aborting', () => {
+      const state = makeState()
+
+      const result = deepUpdate(state).at('items').each().when(item => item.a > 1).at('a').modify(a => a * 10)
+
+      expect(result.items).toEqual([{ a: 1 }, { a: 20 }, { a: 30 }])
+      expect(result.items[0]).toBe(state.items[0])
+    })
+
+    it('returns the original target if no value verifies the predicate', () => {
+      const state = makeState()
+
+      expect(deepUpdate(state).at('items').each().when(item => item.a > 3).at('a').set(0)).toBe(state)
+      expect(deepUpdate(state).at('tz').when(tz => tz < 12).set(0)).toBe(state)
+    })
+
+    it('can modify the other values with otherwise', () => {
+      const state = makeState()
+
+      const result = deepUpdate(state)
+        .at('items')
+        .each()
+        .when(item => item.a % 2 === 1)
+        .otherwise(item => ({ ...item, label: 'even' }))
+        .at('label')
+        .set('odd')
+
+      const tz = deepUpdate(state).at('tz').when(tz => tz < 12).otherwise(tz => tz - 12).modify(tz => tz + 12)
+
+      expect(result.items).toEqual([{ a: 1, label: 'odd' }, { a: 2, label: 'even' }, { a: 3, label: 'odd' }])
+      expect(tz.tz).toBe(2)
+    })
+
+    it('keeps the other edits of a batch', () => {
+      const state = makeState()
+
+      const result = deepUpdate(state).batch(u => {
+        u.at('tz').when(tz => tz < 12).set(0)
+        u.at('items').at(0).abortIfUndef().at('a').set(5)
+      })
+
+      expect(result.tz).toBe(14)
+      expect(result.items[0]).toEqual({ a: 5 })
+    })
+
+    it('passes the content of Options to the predicate', () => {
+      const state = makeState()
+
+      const result = deepUpdate(state).at('opt').when((opt): opt is { a: number } => opt !== undefined && opt.a === 1).at('a').set(2)
+      const none = { opt: makeNone<{ a: number }>() }
+
+      expect(result.opt.get()).toEqual({ a: 2 })
+      expect(deepUpdate(none).at('opt').when((opt): opt is { a: number } => opt !== undefined).at('a').set(2)).toBe(none)
+    })
+
+    it('only reads the values verifying the predicate', () => {
+      const state = makeState()
+
+      expect(deepUpdate(state).at('items').each().when(item => item.a > 1).at('a').get()).toBe(2)
+      expect(deepUpdate(state).at('tz').when(tz => tz < 12).exists()).toBe(false)
+    })
+
+    it('can be used in lenses', () => {
+      const state = makeState()
+      const bigItems = lens<typeof state>().at('items').each().when(item => item.a > 2).otherwise(_ => ({ a: 0 }))
+
+      expect(bigItems.at('a').set(state, 10).items).toEqual([{ a: 0 }, { a: 0 }, { a: 10 }])
+    })
+
+  })
+
 })
 
 